@@ -0,0 +1,78 @@
+export const AMENITY_CANONICAL_MAP: Record<string, string> = {
+  ada: "ada",
+  accessibility: "ada",
+  accessible: "ada",
+  "ada-accessible": "ada",
+  ada_accessible: "ada",
+  wheelchair: "ada",
+  chalkboard: "chalkboard",
+  whiteboard: "chalkboard",
+  "white-board": "chalkboard",
+  dryerase: "chalkboard",
+  "dry-erase": "chalkboard",
+  dry_erase: "chalkboard",
+  markerboard: "chalkboard",
+  whiteboardmobile: "chalkboard",
+  whiteboard_or_chalkboard: "chalkboard",
+  power: "power",
+  outlets: "power",
+  "power-outlets": "power",
+  power_outlets: "power",
+  electric: "power",
+  byod: "power",
+  "byod-friendly": "power",
+  charging: "power",
+  student_byod_power: "power",
+  projector: "projector",
+  projectors: "projector",
+  "projector-hd": "projector",
+  "projector-dual": "projector",
+  "projector-3": "projector",
+  "projector-4": "projector",
+  projector_hd: "projector",
+  projector_dual: "projector",
+  "rear-projector": "projector",
+};
+
+export const AMENITY_DISPLAY_ORDER: string[] = [
+  "ada",
+  "chalkboard",
+  "power",
+  "projector",
+];
+
+export function extractAmenitySlugs(
+  featureFlags: Record<string, boolean> | undefined
+): string[] {
+  if (!featureFlags) return [];
+
+  const normalized = new Set<string>();
+  Object.entries(featureFlags).forEach(([rawKey, isEnabled]) => {
+    if (!isEnabled) return;
+    const canonical = AMENITY_CANONICAL_MAP[rawKey.toLowerCase()];
+    if (canonical) {
+      normalized.add(canonical);
+    }
+  });
+
+  return AMENITY_DISPLAY_ORDER.filter((slug) => normalized.has(slug));
+}
+
+// Maps aliases onto canonical slugs; throws a RangeError naming any slug that
+// is neither, so a typo is reported instead of matching no rooms.
+export function parseAmenityList(value: unknown): string[] {
+  if (!value) return [];
+  const raw = Array.isArray(value) ? value : String(value).split(",");
+  const items = raw
+    .map((item) => String(item).trim().toLowerCase())
+    .filter(Boolean);
+  const unknown = items.filter((item) => !AMENITY_CANONICAL_MAP[item]);
+  if (unknown.length > 0) {
+    throw new RangeError(
+      `Unknown amenit${unknown.length === 1 ? "y" : "ies"} ${unknown
+        .map((item) => `"${item}"`)
+        .join(", ")}; expected one of: ${AMENITY_DISPLAY_ORDER.join(", ")}.`
+    );
+  }
+  return Array.from(new Set(items.map((item) => AMENITY_CANONICAL_MAP[item])));
+}
@@ -1,3 +1,21 @@
+import { extractAmenitySlugs } from "./amenities.js";
+import {
+  addDays,
+  isIsoDate,
+  resolveCalendarDay,
+  type AcademicCalendar,
+  type CalendarDayState,
+} from "./calendar.js";
+import {
+  openWindowForDay,
+  resolveBuildingHours,
+  type BuildingHoursConfig,
+  type OpenWindow,
+  type ResolvedBuildingHours,
+} from "./buildingHours.js";
+import type { PeriodSchedule } from "./periodSchedules.js";
+import { formatMinutes12, formatTime12, toMinutes } from "./time.js";
+
 export interface PeriodEntry {
   day: string;
   period: string;
@@ -10,6 +28,7 @@ export interface PeriodEntry {
 export interface NextAvailability {
   day: string;
   dayLabel: string;
+  date: string;
   period: string;
   startTime: string;
   endTime: string;
@@ -19,6 +38,16 @@ export interface SizeAvailability {
   periods?: PeriodEntry[];
   isAvailableNow?: boolean;
   nextAvailable?: NextAvailability | null;
+  openUntil?: string | null;
+  freeMinutesRemaining?: number | null;
+  nextBusyAt?: string | null;
+}
+
+export interface FreeBlock {
+  day: string;
+  periods: string[];
+  startMinutes: number;
+  endMinutes: number;
 }
 
 interface RoomMetadata {
@@ -32,6 +61,8 @@ interface RoomMetadata {
 export interface RoomAvailability {
   number: string;
   metadata?: RoomMetadata;
+  // Canonical amenity slugs derived from metadata.featureFlags.
+  amenities: string[];
   availability: Record<string, SizeAvailability>;
 }
 
@@ -100,17 +131,34 @@ export interface RawClassroomDataset {
   rooms: RawClassroomRecord[];
 }
 
-interface TimeContext {
+export interface TimeContext {
   dayCode: string;
   minutes: number;
+  date: string;
 }
 
-interface StatusResult {
+export interface TimeQuery {
+  at?: string | null;
+  day?: string | null;
+  time?: string | null;
+}
+
+export interface StatusResult {
   isAvailableNow: boolean;
   nextAvailable: NextAvailability | null;
+  openUntil: string | null;
+  freeMinutesRemaining: number | null;
+  nextBusyAt: string | null;
 }
 
-const PERIOD_DEFINITIONS: Record<string, { start: string; end: string }> = {
+// Free periods separated by no more than a passing period count as one block.
+const PASSING_GAP_MINUTES = 15;
+
+// Two weeks so a closed holiday week still finds the next class-week opening.
+const LOOKAHEAD_DAYS = 14;
+
+// Fall/spring grid; used when no per-term schedule is configured.
+export const PERIOD_DEFINITIONS: PeriodSchedule = {
   "1": { start: "07:25", end: "08:15" },
   "2": { start: "08:30", end: "09:20" },
   "3": { start: "09:35", end: "10:25" },
@@ -127,16 +175,51 @@ const PERIOD_DEFINITIONS: Record<string, { start: string; end: string }> = {
   E3: { start: "21:20", end: "22:10" },
 };
 
-export const PERIOD_START_TIMES: Record<string, string> = Object.fromEntries(
-  Object.entries(PERIOD_DEFINITIONS).map(([period, def]) => [
+export interface PeriodSlot {
+  period: string;
+  startTime: string;
+  endTime: string;
+}
+
+export function getPeriodStartTimes(
+  schedule: PeriodSchedule
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(schedule).map(([period, def]) => [
+      period,
+      formatTime12(def.start),
+    ])
+  );
+}
+
+export const PERIOD_START_TIMES: Record<string, string> =
+  getPeriodStartTimes(PERIOD_DEFINITIONS);
+
+export function describePeriodSchedule(schedule: PeriodSchedule): PeriodSlot[] {
+  return sortPeriods(Object.keys(schedule), schedule).map((period) => ({
     period,
-    formatTime12(def.start),
-  ])
-);
+    startTime: formatTime12(schedule[period].start),
+    endTime: formatTime12(schedule[period].end),
+  }));
+}
+
+export function findUnknownPeriods(
+  periods: Iterable<string>,
+  schedule: PeriodSchedule
+): string[] {
+  return Array.from(periods).filter((period) => !(period in schedule));
+}
 
-const PERIOD_START_TIMES_24 = Object.fromEntries(
-  Object.entries(PERIOD_DEFINITIONS).map(([period, def]) => [period, def.start])
-);
+// Used for no-class days, when every room is free for the whole period grid.
+function allDayBlock(dayCode: string, schedule: PeriodSchedule): FreeBlock {
+  const definitions = Object.values(schedule);
+  return {
+    day: dayCode,
+    periods: Object.keys(schedule),
+    startMinutes: Math.min(...definitions.map((def) => toMinutes(def.start))),
+    endMinutes: Math.max(...definitions.map((def) => toMinutes(def.end))),
+  };
+}
 
 const DAY_ORDER: Record<string, number> = {
   M: 0,
@@ -148,9 +231,9 @@ const DAY_ORDER: Record<string, number> = {
   SU: 6,
 };
 
-const DAY_SEQUENCE = ["M", "T", "W", "TH", "F", "S", "SU"];
+export const DAY_SEQUENCE = ["M", "T", "W", "TH", "F", "S", "SU"];
 
-const DAY_LABELS: Record<string, string> = {
+export const DAY_LABELS: Record<string, string> = {
   M: "Monday",
   T: "Tuesday",
   W: "Wednesday",
@@ -164,22 +247,10 @@ function normalizeName(name: string): string {
   return name.toLowerCase().replace(/[^a-z0-9]+/g, "");
 }
 
-function formatTime12(hourMinute: string): string {
-  const [hh, mm] = hourMinute.split(":").map(Number);
-  const period = hh >= 12 ? "PM" : "AM";
-  const hour = ((hh + 11) % 12) + 1;
-  return `${hour}:${mm.toString().padStart(2, "0")} ${period}`;
-}
-
-function toMinutes(hhmm: string): number {
-  const [hours, minutes] = hhmm.split(":").map((value) => Number(value));
-  return hours * 60 + minutes;
-}
-
-function sortPeriods(periods: string[]): string[] {
+function sortPeriods(periods: string[], schedule: PeriodSchedule): string[] {
   return periods.sort((a, b) => {
-    const aTime = PERIOD_START_TIMES_24[a];
-    const bTime = PERIOD_START_TIMES_24[b];
+    const aTime = schedule[a]?.start;
+    const bTime = schedule[b]?.start;
     if (aTime && bTime) {
       return toMinutes(aTime) - toMinutes(bTime);
     }
@@ -189,7 +260,10 @@ function sortPeriods(periods: string[]): string[] {
   });
 }
 
-function normalizePeriodEntries(entries: RawStarsEntry[]): PeriodEntry[] {
+function normalizePeriodEntries(
+  entries: RawStarsEntry[],
+  schedule: PeriodSchedule
+): PeriodEntry[] {
   const byDay = new Map<string, Set<string>>();
 
   entries.forEach((entry) => {
@@ -207,12 +281,14 @@ function normalizePeriodEntries(entries: RawStarsEntry[]): PeriodEntry[] {
 
   const flattened: PeriodEntry[] = [];
   for (const day of days) {
-    const periods = sortPeriods(Array.from(byDay.get(day)!));
+    const periods = sortPeriods(Array.from(byDay.get(day)!), schedule);
     for (const period of periods) {
-      const definition = PERIOD_DEFINITIONS[period] ?? {
-        start: "00:00",
-        end: "01:00",
-      };
+      const definition = schedule[period];
+      if (!definition) {
+        throw new RangeError(
+          `Unknown period "${period}" on day ${day}; add it to the term's period schedule.`
+        );
+      }
       flattened.push({
         day,
         period,
@@ -239,62 +315,269 @@ function weekdayToDayCode(weekday: string): string | null {
   return null;
 }
 
-export function getCurrentEasternContext(): TimeContext | null {
-  const now = new Date();
+export function getEasternContext(instant: Date): TimeContext | null {
+  if (Number.isNaN(instant.getTime())) return null;
   const formatter = new Intl.DateTimeFormat("en-US", {
     timeZone: "America/New_York",
     hour12: false,
     weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
     hour: "2-digit",
     minute: "2-digit",
   });
-  const parts = formatter.formatToParts(now);
-  const weekday = parts.find((p) => p.type === "weekday")?.value;
-  const hour = parts.find((p) => p.type === "hour")?.value;
-  const minute = parts.find((p) => p.type === "minute")?.value;
-
-  if (!weekday || !hour || !minute) return null;
+  const parts = formatter.formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value;
+  const weekday = get("weekday");
+  const hour = get("hour");
+  const minute = get("minute");
+  const year = get("year");
+  const month = get("month");
+  const day = get("day");
+
+  if (!weekday || !hour || !minute || !year || !month || !day) return null;
   const dayCode = weekdayToDayCode(weekday);
   if (!dayCode) return null;
 
-  const minutes = Number(hour) * 60 + Number(minute);
-  return { dayCode, minutes };
+  // Intl reports midnight as hour "24" when hour12 is false.
+  const minutes = (Number(hour) % 24) * 60 + Number(minute);
+  return { dayCode, minutes, date: `${year}-${month}-${day}` };
+}
+
+export function getCurrentEasternContext(): TimeContext | null {
+  return getEasternContext(new Date());
+}
+
+export function parseDayCode(value: string): string | null {
+  const upper = value.trim().toUpperCase();
+  if (upper in DAY_ORDER) return upper;
+  return weekdayToDayCode(upper);
+}
+
+export function parseClockTime(value: string): number | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d{1,2})(?::?(\d{2}))?\s*(am|pm)?$/);
+  if (!match) return null;
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3];
+  if (minutes > 59) return null;
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  } else if (hours > 23) {
+    return null;
+  }
+  return hours * 60 + minutes;
 }
 
-function computeStatus(periods: PeriodEntry[], context: TimeContext): StatusResult {
-  if (periods.length === 0) {
-    return { isAvailableNow: false, nextAvailable: null };
+// `at` wins over `day` (weekday or ISO date) and `time`; missing parts are
+// filled from `now`. Returns null when nothing was requested and throws
+// RangeError on invalid input.
+export function resolveTimeContext(
+  query: TimeQuery,
+  now: Date = new Date()
+): TimeContext | null {
+  if (query.at) {
+    const context = getEasternContext(new Date(query.at));
+    if (!context) {
+      throw new RangeError(`Invalid "at" timestamp: ${query.at}`);
+    }
+    return context;
+  }
+
+  if (!query.day && !query.time) return null;
+
+  const base = getEasternContext(now);
+  if (!base) {
+    throw new RangeError("Unable to determine the current Eastern time.");
   }
 
-  let isAvailableNow = false;
-  for (const period of periods) {
+  let { dayCode, minutes, date } = base;
+
+  if (query.day && /^\d{4}-\d{2}-\d{2}$/.test(query.day.trim())) {
+    if (!isIsoDate(query.day.trim())) {
+      throw new RangeError(`Invalid "day" value: ${query.day}`);
+    }
+    // Noon UTC falls on the same calendar date in Eastern time.
+    const requested = getEasternContext(
+      new Date(`${query.day.trim()}T12:00:00Z`)
+    );
+    if (!requested) {
+      throw new RangeError(`Invalid "day" value: ${query.day}`);
+    }
+    dayCode = requested.dayCode;
+    date = requested.date;
+  } else if (query.day) {
+    const requested = parseDayCode(query.day);
+    if (!requested) {
+      throw new RangeError(`Invalid "day" value: ${query.day}`);
+    }
+    const offset =
+      (DAY_ORDER[requested] - DAY_ORDER[dayCode] + DAY_SEQUENCE.length) %
+      DAY_SEQUENCE.length;
+    dayCode = requested;
+    date = addDays(date, offset);
+  }
+
+  if (query.time) {
+    const requested = parseClockTime(query.time);
+    if (requested === null) {
+      throw new RangeError(`Invalid "time" value: ${query.time}`);
+    }
+    minutes = requested;
+  }
+
+  return { dayCode, minutes, date };
+}
+
+export function buildFreeBlocks(periods: PeriodEntry[]): FreeBlock[] {
+  const sorted = periods
+    .slice()
+    .sort(
+      (a, b) =>
+        (DAY_ORDER[a.day] ?? 99) - (DAY_ORDER[b.day] ?? 99) ||
+        a.startMinutes - b.startMinutes
+    );
+
+  const blocks: FreeBlock[] = [];
+  for (const period of sorted) {
+    const last = blocks[blocks.length - 1];
     if (
-      period.day === context.dayCode &&
-      period.startMinutes <= context.minutes &&
-      context.minutes < period.endMinutes
+      last &&
+      last.day === period.day &&
+      period.startMinutes - last.endMinutes <= PASSING_GAP_MINUTES
     ) {
-      isAvailableNow = true;
-      break;
+      if (!last.periods.includes(period.period)) {
+        last.periods.push(period.period);
+      }
+      last.endMinutes = Math.max(last.endMinutes, period.endMinutes);
+      continue;
     }
+    blocks.push({
+      day: period.day,
+      periods: [period.period],
+      startMinutes: period.startMinutes,
+      endMinutes: period.endMinutes,
+    });
+  }
+
+  return blocks;
+}
+
+function findNextBusyStart(
+  block: FreeBlock,
+  schedule: PeriodSchedule
+): number | null {
+  const starts = Object.entries(schedule)
+    .filter(([period]) => !block.periods.includes(period))
+    .map(([, def]) => toMinutes(def.start))
+    .filter((start) => start >= block.endMinutes)
+    .sort((a, b) => a - b);
+  return starts.length > 0 ? starts[0] : null;
+}
+
+function blocksForCalendarDay(
+  weekly: FreeBlock[],
+  dayCode: string,
+  state: CalendarDayState,
+  schedule: PeriodSchedule
+): FreeBlock[] {
+  switch (state.mode) {
+    // Exam rooms are assigned outside STARS, and an uncovered date has no
+    // schedule to trust, so neither reports a room as free.
+    case "closed":
+    case "finals":
+    case "unknown":
+      return [];
+    case "open":
+      return [allDayBlock(dayCode, schedule)];
+    case "special": {
+      const scheduleDay = state.scheduleDay ?? dayCode;
+      return weekly
+        .filter((block) => block.day === scheduleDay)
+        .map((block) => ({ ...block, day: dayCode }));
+    }
+    default:
+      return weekly.filter((block) => block.day === dayCode);
   }
+}
 
+function clipBlocks(blocks: FreeBlock[], window: OpenWindow | null): FreeBlock[] {
+  if (!window) return [];
+  return blocks
+    .map((block) => ({
+      ...block,
+      startMinutes: Math.max(block.startMinutes, window.startMinutes),
+      endMinutes: Math.min(block.endMinutes, window.endMinutes),
+    }))
+    .filter((block) => block.endMinutes > block.startMinutes);
+}
+
+export interface DayBlockOptions {
+  calendar: AcademicCalendar | null;
+  schedule: PeriodSchedule;
+  hours: ResolvedBuildingHours | null;
+}
+
+// Free blocks on a specific date after applying the calendar and building hours.
+export function freeBlocksForDate(
+  weekly: FreeBlock[],
+  dayCode: string,
+  date: string,
+  options: DayBlockOptions
+): FreeBlock[] {
+  const state = resolveCalendarDay(options.calendar, date);
+  const blocks = blocksForCalendarDay(weekly, dayCode, state, options.schedule);
+  return options.hours
+    ? clipBlocks(blocks, openWindowForDay(options.hours, dayCode, state.mode))
+    : blocks;
+}
+
+// Pure: the status of one size bucket's weekly free blocks at `context`.
+export function computeStatus(
+  weekly: FreeBlock[],
+  context: TimeContext,
+  options: DayBlockOptions
+): StatusResult {
   const startIndex = DAY_SEQUENCE.indexOf(context.dayCode);
-  let next: PeriodEntry | null = null;
 
-  for (let offset = 0; offset < DAY_SEQUENCE.length; offset += 1) {
-    const day = DAY_SEQUENCE[(startIndex + offset) % DAY_SEQUENCE.length];
-    const dayPeriods = periods.filter((period) => period.day === day);
+  const blocksForOffset = (offset: number) => {
+    const dayCode = DAY_SEQUENCE[(startIndex + offset) % DAY_SEQUENCE.length];
+    const date = addDays(context.date, offset);
+    return { date, blocks: freeBlocksForDate(weekly, dayCode, date, options) };
+  };
+
+  const today = blocksForOffset(0).blocks;
+  const current =
+    today.find(
+      (block) =>
+        block.startMinutes <= context.minutes &&
+        context.minutes < block.endMinutes
+    ) ?? null;
+
+  let next: FreeBlock | null = null;
+  let nextDate = context.date;
+
+  for (let offset = 0; offset < LOOKAHEAD_DAYS; offset += 1) {
+    const { date, blocks: dayBlocks } = blocksForOffset(offset);
 
     if (offset === 0) {
-      const upcoming = dayPeriods.find(
-        (period) => period.startMinutes > context.minutes
+      const upcoming = dayBlocks.find(
+        (block) => block.startMinutes > context.minutes
       );
       if (upcoming) {
         next = upcoming;
+        nextDate = date;
         break;
       }
-    } else if (dayPeriods.length > 0) {
-      next = dayPeriods[0];
+    } else if (dayBlocks.length > 0) {
+      next = dayBlocks[0];
+      nextDate = date;
       break;
     }
   }
@@ -303,30 +586,60 @@ function computeStatus(periods: PeriodEntry[], context: TimeContext): StatusResu
     ? {
         day: next.day,
         dayLabel: DAY_LABELS[next.day] ?? next.day,
-        period: next.period,
-        startTime: next.startTime,
-        endTime: next.endTime,
+        date: nextDate,
+        period: next.periods[0],
+        startTime: formatMinutes12(next.startMinutes),
+        endTime: formatMinutes12(next.endMinutes),
       }
     : null;
 
-  return { isAvailableNow, nextAvailable };
+  const nextBusyStart = current
+    ? findNextBusyStart(current, options.schedule)
+    : null;
+
+  return {
+    isAvailableNow: current !== null,
+    nextAvailable,
+    openUntil: current ? formatMinutes12(current.endMinutes) : null,
+    freeMinutesRemaining: current
+      ? current.endMinutes - context.minutes
+      : null,
+    nextBusyAt: nextBusyStart !== null ? formatMinutes12(nextBusyStart) : null,
+  };
+}
+
+export interface StatusOptions {
+  calendar?: AcademicCalendar | null;
+  schedule?: PeriodSchedule | null;
+  buildingHours?: BuildingHoursConfig | null;
 }
 
 export function applyRealtimeStatus(
-  dataset: AvailabilityDataset
+  dataset: AvailabilityDataset,
+  context: TimeContext | null = getCurrentEasternContext(),
+  options: StatusOptions = {}
 ): AvailabilityDataset {
-  const context = getCurrentEasternContext();
   if (!context) return dataset;
+  const calendar = options.calendar ?? null;
+  const schedule = options.schedule ?? PERIOD_DEFINITIONS;
 
   dataset.buildings.forEach((building) => {
+    const hours = resolveBuildingHours(options.buildingHours, building);
     building.rooms.forEach((room) => {
       Object.entries(room.availability).forEach(([size, record]) => {
         const periods = record.periods ?? [];
-        const status = computeStatus(periods, context);
+        const status = computeStatus(buildFreeBlocks(periods), context, {
+          calendar,
+          schedule,
+          hours,
+        });
         room.availability[size] = {
           periods: periods.map((period) => ({ ...period })),
           isAvailableNow: status.isAvailableNow,
           nextAvailable: status.nextAvailable,
+          openUntil: status.openUntil,
+          freeMinutesRemaining: status.freeMinutesRemaining,
+          nextBusyAt: status.nextBusyAt,
         };
       });
     });
@@ -335,9 +648,33 @@ export function applyRealtimeStatus(
   return dataset;
 }
 
+// Seat count from classroom metadata, else the largest STARS size bucket.
+export function roomCapacity(room: RoomAvailability): number | null {
+  if (typeof room.metadata?.capacity === "number") {
+    return room.metadata.capacity;
+  }
+  const sizes = Object.keys(room.availability)
+    .map((value) => Number(value))
+    .filter((value) => Number.isFinite(value));
+  return sizes.length > 0 ? Math.max(...sizes) : null;
+}
+
+// STARS lists a room under every size bucket it fits; its periods are the
+// same in each, so the union is the room's weekly free schedule.
+export function mergeRoomPeriods(room: RoomAvailability): PeriodEntry[] {
+  const merged = new Map<string, PeriodEntry>();
+  Object.values(room.availability).forEach((record) => {
+    (record.periods ?? []).forEach((entry) => {
+      merged.set(`${entry.day}-${entry.period}`, entry);
+    });
+  });
+  return Array.from(merged.values());
+}
+
 export function buildAvailabilityDataset(
   stars: RawStarsData | null,
-  classrooms: RawClassroomDataset | null
+  classrooms: RawClassroomDataset | null,
+  schedule: PeriodSchedule = PERIOD_DEFINITIONS
 ): AvailabilityDataset {
   if (!stars) {
     return {
@@ -417,12 +754,13 @@ if (classrooms?.rooms) {
                 detailUrl: meta.detailUrl,
               }
             : undefined,
+          amenities: extractAmenitySlugs(meta?.featureFlags),
           availability: {},
         };
           buildingRecord.roomsMap.set(roomNumber, roomRecord);
         }
 
-        const normalized = normalizePeriodEntries(roomEntries);
+        const normalized = normalizePeriodEntries(roomEntries, schedule);
         if (normalized.length > 0) {
           roomRecord.availability[size] = { periods: normalized };
         }
@@ -461,41 +799,38 @@ if (classrooms?.rooms) {
   };
 }
 
-function mapToPeriodEntry(raw: any): PeriodEntry {
+function mapToPeriodEntry(raw: any, schedule: PeriodSchedule): PeriodEntry {
   const day = (raw?.day ?? raw?.DAY ?? "").toUpperCase();
   const period = (raw?.period ?? raw?.PERIOD ?? "").toUpperCase();
-  const definition = PERIOD_DEFINITIONS[period] ?? {
-    start: "00:00",
-    end: "01:00",
-  };
-  const startMinutes =
-    typeof raw?.startMinutes === "number"
-      ? raw.startMinutes
-      : toMinutes(definition.start);
-  const endMinutes =
-    typeof raw?.endMinutes === "number"
-      ? raw.endMinutes
-      : toMinutes(definition.end);
+  const definition = schedule[period];
+  if (!definition) {
+    throw new RangeError(
+      `Unknown period "${period}" on day ${day}; add it to the term's period schedule.`
+    );
+  }
 
   return {
     day,
     period,
-    startTime: raw?.startTime ?? formatTime12(definition.start),
-    endTime: raw?.endTime ?? formatTime12(definition.end),
-    startMinutes,
-    endMinutes,
+    startTime: formatTime12(definition.start),
+    endTime: formatTime12(definition.end),
+    startMinutes: toMinutes(definition.start),
+    endMinutes: toMinutes(definition.end),
   };
 }
 
 export function normalizeAvailabilityDataset(
-  dataset: AvailabilityDataset
+  dataset: AvailabilityDataset,
+  schedule: PeriodSchedule = PERIOD_DEFINITIONS
 ): AvailabilityDataset {
+  const toEntry = (raw: unknown) => mapToPeriodEntry(raw, schedule);
+
   dataset.buildings.forEach((building) => {
     building.rooms.forEach((room) => {
       const normalized: Record<string, SizeAvailability> = {};
       Object.entries(room.availability).forEach(([size, record]) => {
         if (Array.isArray(record)) {
-          normalized[size] = { periods: record.map(mapToPeriodEntry) };
+          normalized[size] = { periods: record.map(toEntry) };
         } else if (
           record &&
           typeof record === "object" &&
@@ -503,7 +838,7 @@ export function normalizeAvailabilityDataset(
         ) {
           normalized[size] = {
             periods: ((record as SizeAvailability).periods ?? []).map(
-              mapToPeriodEntry
+              toEntry
             ),
           };
         } else {
@@ -511,6 +846,9 @@ export function normalizeAvailabilityDataset(
         }
       });
       room.availability = normalized;
+      // Recomputed so datasets published before amenities were stored (or
+      // before the canonical map changed) match freshly built ones.
+      room.amenities = extractAmenitySlugs(room.metadata?.featureFlags);
     });
   });
   return dataset;
@@ -0,0 +1,149 @@
+import {
+  roomCapacity,
+  type AvailabilityDataset,
+  type BuildingAvailability,
+  type RoomAvailability,
+  type SizeAvailability,
+} from "./availability.js";
+import { matchPeriodEntries, type PeriodMatch } from "./periodMatch.js";
+
+export interface AvailabilityFilters {
+  size?: string | null;
+  buildingId?: string | null;
+  buildingCode?: string | null;
+  roomNumber?: string | null;
+  amenities?: string[] | null;
+  minCapacity?: number | null;
+  maxCapacity?: number | null;
+}
+
+// Deep-copies the matching buildings, rooms and size buckets so the caller
+// can run applyRealtimeStatus on the result without touching the snapshot.
+export function filterAvailability(
+  dataset: AvailabilityDataset,
+  filters: AvailabilityFilters,
+  periodMatch?: PeriodMatch | null
+): AvailabilityDataset {
+  const sizeFilter = filters.size?.toUpperCase() ?? null;
+  const buildingIdFilter = filters.buildingId ?? null;
+  const buildingCodeFilter = filters.buildingCode
+    ? filters.buildingCode.toUpperCase()
+    : null;
+  const roomFilter = filters.roomNumber
+    ? filters.roomNumber.toUpperCase()
+    : null;
+  const amenityFilter = filters.amenities ?? [];
+  const hasCapacityFilter = Boolean(filters.minCapacity || filters.maxCapacity);
+
+  const filteredBuildings: BuildingAvailability[] = dataset.buildings
+    .filter((building: BuildingAvailability) => {
+      if (buildingIdFilter && building.id !== buildingIdFilter) return false;
+      if (
+        buildingCodeFilter &&
+        building.code?.toUpperCase() !== buildingCodeFilter
+      ) {
+        return false;
+      }
+      return true;
+    })
+    .map((building: BuildingAvailability) => {
+      const rooms: RoomAvailability[] = [];
+
+      building.rooms.forEach((room: RoomAvailability) => {
+        if (roomFilter && room.number.toUpperCase() !== roomFilter) {
+          return;
+        }
+        if (!amenityFilter.every((slug) => room.amenities.includes(slug))) {
+          return;
+        }
+        if (hasCapacityFilter) {
+          // Rooms with no known capacity only pass when no bound is set.
+          const capacity = roomCapacity(room);
+          if (capacity === null) return;
+          if (filters.minCapacity && capacity < filters.minCapacity) return;
+          if (filters.maxCapacity && capacity > filters.maxCapacity) return;
+        }
+
+        const sizeEntries = sizeFilter
+          ? ([[sizeFilter, room.availability[sizeFilter]]] as Array<
+              [string, SizeAvailability | undefined]
+            >)
+          : (Object.entries(room.availability) as Array<
+              [string, SizeAvailability]
+            >);
+
+        const availability: Record<string, SizeAvailability> = {};
+
+        sizeEntries.forEach(([sizeKey, record]) => {
+          const cloned = cloneAvailabilityRecord(record, periodMatch);
+          if (cloned) {
+            availability[sizeKey] = cloned;
+          }
+        });
+
+        if (Object.keys(availability).length === 0) {
+          return;
+        }
+
+        rooms.push({
+          number: room.number,
+          metadata: room.metadata,
+          amenities: room.amenities,
+          availability,
+        });
+      });
+
+      return {
+        id: building.id,
+        code: building.code,
+        name: building.name,
+        campusId: building.campusId,
+        lat: building.lat,
+        lng: building.lng,
+        rooms,
+      };
+    })
+    .filter((building) => building.rooms.length > 0);
+
+  return {
+    fetchedAt: dataset.fetchedAt,
+    term: dataset.term,
+    classSizes: dataset.classSizes,
+    buildings: filteredBuildings,
+  };
+}
+
+function cloneAvailabilityRecord(
+  record: SizeAvailability | undefined,
+  periodMatch?: PeriodMatch | null
+): SizeAvailability | null {
+  if (!record) return null;
+  const srcPeriods = record.periods ?? [];
+  let periods = srcPeriods;
+  if (periodMatch) {
+    const matched = matchPeriodEntries(srcPeriods, periodMatch);
+    if (!matched) return null;
+    periods = matched;
+  }
+
+  return {
+    periods: periods.map((entry) => ({ ...entry })),
+    isAvailableNow: record.isAvailableNow,
+    nextAvailable: record.nextAvailable,
+    openUntil: record.openUntil,
+    freeMinutesRemaining: record.freeMinutesRemaining,
+    nextBusyAt: record.nextBusyAt,
+  };
+}
+
+export function stripPeriods(dataset: AvailabilityDataset) {
+  dataset.buildings.forEach((building) => {
+    building.rooms.forEach((room) => {
+      Object.values(room.availability).forEach((record) => {
+        if (record.periods) {
+          delete record.periods;
+        }
+      });
+    });
+  });
+}
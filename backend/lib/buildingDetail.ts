@@ -0,0 +1,121 @@
+import { AMENITY_DISPLAY_ORDER } from "./amenities.js";
+import {
+  parseClockTime,
+  roomCapacity,
+  type BuildingAvailability,
+  type NextAvailability,
+  type RoomAvailability,
+  type TimeContext,
+} from "./availability.js";
+import { pickStatusRecord } from "./roomStream.js";
+
+export interface BuildingRoomDetail {
+  id: string;
+  number: string;
+  capacity: number | null;
+  amenities: string[];
+  metadata: RoomAvailability["metadata"] | null;
+  isAvailableNow: boolean;
+  isAvailableLaterToday: boolean;
+  openUntil: string | null;
+  freeMinutesRemaining: number | null;
+  nextAvailable: NextAvailability | null;
+  nextBusyAt: string | null;
+}
+
+export interface BuildingAggregates {
+  roomCount: number;
+  openNowCount: number;
+  openLaterTodayCount: number;
+  largestOpenRoom: {
+    id: string;
+    number: string;
+    capacity: number | null;
+    openUntil: string | null;
+  } | null;
+  // Amenity slugs offered by at least one room, in display order.
+  amenities: string[];
+  // Earliest upcoming free block; only set while no room is open now.
+  nextOpening: (NextAvailability & { roomId: string }) | null;
+}
+
+export interface BuildingDetail {
+  rooms: BuildingRoomDetail[];
+  aggregates: BuildingAggregates;
+}
+
+function openingSortKey(next: NextAvailability): string {
+  const minutes = parseClockTime(next.startTime) ?? 0;
+  return `${next.date} ${String(minutes).padStart(4, "0")}`;
+}
+
+// Expects a building that already went through applyRealtimeStatus.
+export function describeBuilding(
+  building: BuildingAvailability,
+  context: TimeContext | null
+): BuildingDetail {
+  const rooms = building.rooms
+    .map((room): BuildingRoomDetail => {
+      const record = pickStatusRecord(room.availability);
+      const isAvailableNow = record?.isAvailableNow ?? false;
+      const nextAvailable = record?.nextAvailable ?? null;
+      return {
+        id: `${building.code ?? building.id}-${room.number}`,
+        number: room.number,
+        capacity: roomCapacity(room),
+        amenities: room.amenities,
+        metadata: room.metadata ?? null,
+        isAvailableNow,
+        isAvailableLaterToday:
+          !isAvailableNow &&
+          Boolean(context && nextAvailable?.date === context.date),
+        openUntil: record?.openUntil ?? null,
+        freeMinutesRemaining: record?.freeMinutesRemaining ?? null,
+        nextAvailable,
+        nextBusyAt: record?.nextBusyAt ?? null,
+      };
+    })
+    .sort((a, b) =>
+      a.number.localeCompare(b.number, undefined, { numeric: true })
+    );
+
+  const open = rooms.filter((room) => room.isAvailableNow);
+  const largestOpen = open.reduce<BuildingRoomDetail | null>(
+    (largest, room) =>
+      !largest || (room.capacity ?? 0) > (largest.capacity ?? 0)
+        ? room
+        : largest,
+    null
+  );
+  const offered = new Set(rooms.flatMap((room) => room.amenities));
+  const upcoming = rooms
+    .flatMap((room) =>
+      room.nextAvailable ? [{ roomId: room.id, next: room.nextAvailable }] : []
+    )
+    .sort((a, b) =>
+      openingSortKey(a.next).localeCompare(openingSortKey(b.next))
+    )[0];
+
+  return {
+    rooms,
+    aggregates: {
+      roomCount: rooms.length,
+      openNowCount: open.length,
+      openLaterTodayCount: rooms.filter((room) => room.isAvailableLaterToday)
+        .length,
+      largestOpenRoom: largestOpen
+        ? {
+            id: largestOpen.id,
+            number: largestOpen.number,
+            capacity: largestOpen.capacity,
+            openUntil: largestOpen.openUntil,
+          }
+        : null,
+      amenities: AMENITY_DISPLAY_ORDER.filter((slug) => offered.has(slug)),
+      nextOpening:
+        open.length === 0 && upcoming
+          ? { ...upcoming.next, roomId: upcoming.roomId }
+          : null,
+    },
+  };
+}
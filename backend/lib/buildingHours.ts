@@ -0,0 +1,92 @@
+import type { CalendarDayMode } from "./calendar.js";
+import { toMinutes } from "./time.js";
+
+export interface OpeningHours {
+  open: string;
+  close: string;
+}
+
+// `null` means the building is locked for that kind of day.
+export interface BuildingHours {
+  weekday: OpeningHours | null;
+  weekend: OpeningHours | null;
+  holiday: OpeningHours | null;
+}
+
+export interface BuildingHoursConfig {
+  closingBufferMinutes?: number;
+  default?: BuildingHours;
+  // Keyed by STARS building ID (e.g. "B800000007") or campus code ("AND").
+  buildings: Record<string, Partial<BuildingHours>>;
+}
+
+export interface ResolvedBuildingHours extends BuildingHours {
+  closingBufferMinutes: number;
+}
+
+export interface OpenWindow {
+  startMinutes: number;
+  endMinutes: number;
+}
+
+const WEEKEND_DAYS = new Set(["S", "SU"]);
+
+export function resolveBuildingHours(
+  config: BuildingHoursConfig | null | undefined,
+  building: { id: string; code: string | null }
+): ResolvedBuildingHours | null {
+  if (!config) return null;
+
+  const specific =
+    config.buildings[building.id] ??
+    (building.code ? config.buildings[building.code.toUpperCase()] : undefined);
+  if (!specific && !config.default) return null;
+
+  const fallback = config.default ?? {
+    weekday: null,
+    weekend: null,
+    holiday: null,
+  };
+  return {
+    weekday:
+      specific?.weekday !== undefined ? specific.weekday : fallback.weekday,
+    weekend:
+      specific?.weekend !== undefined ? specific.weekend : fallback.weekend,
+    holiday:
+      specific?.holiday !== undefined ? specific.holiday : fallback.holiday,
+    closingBufferMinutes: config.closingBufferMinutes ?? 0,
+  };
+}
+
+export function hoursForDay(
+  hours: BuildingHours,
+  dayCode: string,
+  mode: CalendarDayMode
+): OpeningHours | null {
+  if (mode === "closed") return hours.holiday;
+  return WEEKEND_DAYS.has(dayCode) ? hours.weekend : hours.weekday;
+}
+
+// The usable window, ending `closingBufferMinutes` before lock-up.
+export function openWindowForDay(
+  hours: ResolvedBuildingHours,
+  dayCode: string,
+  mode: CalendarDayMode
+): OpenWindow | null {
+  const day = hoursForDay(hours, dayCode, mode);
+  if (!day) return null;
+  const startMinutes = toMinutes(day.open);
+  const endMinutes = toMinutes(day.close) - hours.closingBufferMinutes;
+  return endMinutes > startMinutes ? { startMinutes, endMinutes } : null;
+}
+
+export function isOpenAt(
+  hours: BuildingHours,
+  dayCode: string,
+  mode: CalendarDayMode,
+  minutes: number
+): boolean {
+  const day = hoursForDay(hours, dayCode, mode);
+  if (!day) return false;
+  return toMinutes(day.open) <= minutes && minutes < toMinutes(day.close);
+}
@@ -0,0 +1,176 @@
+export const CALENDAR_DAY_MODES = [
+  "classes",
+  "closed",
+  "open",
+  "special",
+  "finals",
+  "unknown",
+] as const;
+
+export type CalendarDayMode = (typeof CALENDAR_DAY_MODES)[number];
+
+export interface CalendarException {
+  start: string;
+  end?: string;
+  mode: Exclude<CalendarDayMode, "classes" | "unknown">;
+  label: string;
+  scheduleDay?: string;
+}
+
+export interface AcademicTerm {
+  term: string;
+  start: string;
+  end: string;
+  finals?: { start: string; end: string } | null;
+  exceptions?: CalendarException[];
+}
+
+export interface AcademicCalendar {
+  source?: string;
+  betweenTerms?: { mode: "classes" | "closed" | "open"; label: string };
+  terms: AcademicTerm[];
+}
+
+export interface CalendarDayState {
+  date: string;
+  term: string | null;
+  mode: CalendarDayMode;
+  label: string | null;
+  scheduleDay: string | null;
+}
+
+// True for a real calendar date in YYYY-MM-DD form; `Date` would roll
+// 2025-02-30 over to March and reject 2025-13-01 only later.
+export function isIsoDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return (
+    !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+  );
+}
+
+export function addDays(isoDate: string, days: number): string {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+const UTC_DAY_CODES = ["SU", "M", "T", "W", "TH", "F", "S"];
+
+export function dayCodeForDate(isoDate: string): string {
+  return UTC_DAY_CODES[new Date(`${isoDate}T00:00:00Z`).getUTCDay()];
+}
+
+export function findTermByName(
+  calendar: AcademicCalendar | null | undefined,
+  name: string | null | undefined
+): AcademicTerm | null {
+  if (!calendar || !name) return null;
+  const normalized = name.trim().toLowerCase();
+  return (
+    calendar.terms.find((term) => term.term.toLowerCase() === normalized) ??
+    null
+  );
+}
+
+function isWithin(date: string, start: string, end?: string | null): boolean {
+  return date >= start && date <= (end ?? start);
+}
+
+export function findTermForDate(
+  calendar: AcademicCalendar,
+  date: string
+): AcademicTerm | null {
+  return (
+    calendar.terms.find((term) => isWithin(date, term.start, term.end)) ?? null
+  );
+}
+
+// True when `date` falls between the first term's start and the last term's
+// end. Past either edge the calendar says nothing about the day.
+export function calendarCovers(
+  calendar: AcademicCalendar,
+  date: string
+): boolean {
+  if (calendar.terms.length === 0) return false;
+  const start = calendar.terms.reduce(
+    (min, term) => (term.start < min ? term.start : min),
+    calendar.terms[0].start
+  );
+  const end = calendar.terms.reduce(
+    (max, term) => (term.end > max ? term.end : max),
+    calendar.terms[0].end
+  );
+  return isWithin(date, start, end);
+}
+
+export function resolveCalendarDay(
+  calendar: AcademicCalendar | null | undefined,
+  date: string
+): CalendarDayState {
+  if (!calendar) {
+    return {
+      date,
+      term: null,
+      mode: "classes",
+      label: null,
+      scheduleDay: null,
+    };
+  }
+
+  if (!calendarCovers(calendar, date)) {
+    return {
+      date,
+      term: null,
+      mode: "unknown",
+      label: "Outside the academic calendar",
+      scheduleDay: null,
+    };
+  }
+
+  const term = findTermForDate(calendar, date);
+  if (!term) {
+    const fallback = calendar.betweenTerms ?? {
+      mode: "open",
+      label: "No classes scheduled",
+    };
+    return {
+      date,
+      term: null,
+      mode: fallback.mode,
+      label: fallback.label,
+      scheduleDay: null,
+    };
+  }
+
+  const exception = (term.exceptions ?? []).find((entry) =>
+    isWithin(date, entry.start, entry.end)
+  );
+  if (exception) {
+    return {
+      date,
+      term: term.term,
+      mode: exception.mode,
+      label: exception.label,
+      scheduleDay: exception.scheduleDay?.toUpperCase() ?? null,
+    };
+  }
+
+  if (term.finals && isWithin(date, term.finals.start, term.finals.end)) {
+    return {
+      date,
+      term: term.term,
+      mode: "finals",
+      label: "Final exams",
+      scheduleDay: null,
+    };
+  }
+
+  return {
+    date,
+    term: term.term,
+    mode: "classes",
+    label: null,
+    scheduleDay: null,
+  };
+}
@@ -0,0 +1,504 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  buildAvailabilityDataset,
+  normalizeAvailabilityDataset,
+  type AvailabilityDataset,
+  type RawClassroomDataset,
+  type RawStarsData,
+} from "./availability.js";
+import type { PeriodSchedule } from "./periodSchedules.js";
+
+export type DatasetSourceKind = "supabase" | "sqlite" | "local";
+
+export interface SnapshotVersion {
+  version: string;
+  term: string;
+  fetchedAt: string;
+  createdAt: string | null;
+  // The version the term's "current" pointer selects, i.e. what `load` returns.
+  isCurrent: boolean;
+}
+
+export interface SnapshotListOptions {
+  term?: string | null;
+  limit?: number | null;
+}
+
+export interface DatasetSource {
+  kind: DatasetSourceKind;
+  location: string;
+  // The current dataset of every term; empty when the source holds none.
+  load(): Promise<AvailabilityDataset[]>;
+  // Every stored version, newest first.
+  listVersions(options?: SnapshotListOptions): Promise<SnapshotVersion[]>;
+  loadVersion(version: string): Promise<AvailabilityDataset | null>;
+  // Every term in the one-row-per-term table that predates versioning.
+  loadLegacy?(): Promise<AvailabilityDataset[]>;
+  // Stores the dataset as a new version (unless identical content is already
+  // stored) and moves its term's current pointer to it.
+  save?(dataset: AvailabilityDataset): Promise<string>;
+}
+
+export interface DatasetSourceOptions {
+  backendRoot: string;
+  env?: NodeJS.ProcessEnv;
+  supabase?: SupabaseClient | null;
+  scheduleForTerm: (term: string | null | undefined) => PeriodSchedule;
+}
+
+export interface LoadedDatasets {
+  datasets: AvailabilityDataset[];
+  source: DatasetSourceKind | null;
+  location: string | null;
+  // True when the datasets came from the pre-versioning table.
+  legacy?: boolean;
+}
+
+export const DEFAULT_SOURCE_ORDER: DatasetSourceKind[] = [
+  "supabase",
+  "sqlite",
+  "local",
+];
+
+const VERSIONS_TABLE = "room_availability_versions";
+const CURRENT_TABLE = "room_availability_current";
+const LEGACY_TABLE = "room_availability_snapshots";
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+// A content hash over key-sorted JSON, so a dataset keeps its version whether
+// it was read from jsonb, SQLite text or the local files.
+export function datasetVersion(dataset: AvailabilityDataset): string {
+  return createHash("sha1")
+    .update(canonicalJson(dataset))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+function normalizeFor(
+  dataset: AvailabilityDataset,
+  scheduleForTerm: DatasetSourceOptions["scheduleForTerm"]
+): AvailabilityDataset {
+  return normalizeAvailabilityDataset(dataset, scheduleForTerm(dataset.term));
+}
+
+export function createSupabaseSource(
+  client: SupabaseClient,
+  scheduleForTerm: DatasetSourceOptions["scheduleForTerm"]
+): DatasetSource {
+  return {
+    kind: "supabase",
+    location: `${CURRENT_TABLE} -> ${VERSIONS_TABLE}`,
+    async load() {
+      const { data, error } = await client
+        .from(CURRENT_TABLE)
+        .select(`version, ${VERSIONS_TABLE} (data)`);
+      if (error) throw error;
+      return (data ?? []).flatMap((row) => {
+        const stored = row[VERSIONS_TABLE] as unknown as {
+          data: AvailabilityDataset;
+        } | null;
+        return stored?.data ? [normalizeFor(stored.data, scheduleForTerm)] : [];
+      });
+    },
+    async listVersions(options = {}) {
+      let query = client
+        .from(VERSIONS_TABLE)
+        .select("version, term, fetched_at, created_at")
+        .order("created_at", { ascending: false });
+      if (options.term) query = query.ilike("term", options.term);
+      if (options.limit) query = query.limit(options.limit);
+      const [versions, current] = await Promise.all([
+        query,
+        client.from(CURRENT_TABLE).select("version"),
+      ]);
+      if (versions.error) throw versions.error;
+      if (current.error) throw current.error;
+      const currentVersions = new Set(
+        (current.data ?? []).map((row) => row.version as string)
+      );
+      return (versions.data ?? []).map((row) => ({
+        version: row.version,
+        term: row.term,
+        fetchedAt: row.fetched_at,
+        createdAt: row.created_at,
+        isCurrent: currentVersions.has(row.version),
+      }));
+    },
+    async loadVersion(version) {
+      const { data, error } = await client
+        .from(VERSIONS_TABLE)
+        .select("data")
+        .eq("version", version)
+        .maybeSingle();
+      if (error) throw error;
+      return data?.data
+        ? normalizeFor(data.data as AvailabilityDataset, scheduleForTerm)
+        : null;
+    },
+    async save(dataset) {
+      const version = datasetVersion(dataset);
+      const stored = await client.from(VERSIONS_TABLE).upsert(
+        {
+          version,
+          term: dataset.term,
+          fetched_at: dataset.fetchedAt,
+          data: dataset,
+        },
+        { onConflict: "version", ignoreDuplicates: true }
+      );
+      if (stored.error) throw stored.error;
+      const pointer = await client
+        .from(CURRENT_TABLE)
+        .upsert(
+          { term: dataset.term, version, updated_at: new Date().toISOString() },
+          { onConflict: "term" }
+        );
+      if (pointer.error) throw pointer.error;
+      return version;
+    },
+    async loadLegacy() {
+      const { data, error } = await client.from(LEGACY_TABLE).select("data");
+      if (error) throw error;
+      return (data ?? []).flatMap((row) =>
+        row.data
+          ? [normalizeFor(row.data as AvailabilityDataset, scheduleForTerm)]
+          : []
+      );
+    },
+  };
+}
+
+// Uses the same tables as Supabase, with each dataset stored as JSON text.
+export function createSqliteSource(
+  filePath: string,
+  scheduleForTerm: DatasetSourceOptions["scheduleForTerm"]
+): DatasetSource {
+  const open = (readonly: boolean) => {
+    const db = new Database(filePath, { readonly, fileMustExist: readonly });
+    if (!readonly) {
+      db.exec(`create table if not exists ${VERSIONS_TABLE} (
+        version text primary key,
+        term text not null,
+        fetched_at text not null,
+        data text not null,
+        created_at text default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      );
+      create table if not exists ${CURRENT_TABLE} (
+        term text primary key,
+        version text not null references ${VERSIONS_TABLE} (version),
+        updated_at text default (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      )`);
+    }
+    return db;
+  };
+
+  // Readers return the fallback when the file lacks the tables they need,
+  // e.g. a file that predates the versioned tables.
+  const read = <T>(
+    fallback: T,
+    query: (db: Database.Database) => T,
+    tables: string[] = [VERSIONS_TABLE, CURRENT_TABLE]
+  ): T => {
+    if (!fs.existsSync(filePath)) return fallback;
+    const placeholders = tables.map(() => "?").join(", ");
+    const db = open(true);
+    try {
+      const found = db
+        .prepare(
+          `select count(*) as count from sqlite_master
+           where type = 'table' and name in (${placeholders})`
+        )
+        .get(...tables) as { count: number };
+      return found.count === tables.length ? query(db) : fallback;
+    } finally {
+      db.close();
+    }
+  };
+
+  const parse = (data: string) =>
+    normalizeFor(JSON.parse(data) as AvailabilityDataset, scheduleForTerm);
+
+  return {
+    kind: "sqlite",
+    location: filePath,
+    async load() {
+      return read([], (db) =>
+        (
+          db
+            .prepare(
+              `select v.data from ${CURRENT_TABLE} c
+               join ${VERSIONS_TABLE} v on v.version = c.version`
+            )
+            .all() as Array<{ data: string }>
+        ).map((row) => parse(row.data))
+      );
+    },
+    async listVersions(options = {}) {
+      return read([], (db) =>
+        (
+          db
+            .prepare(
+              `select v.version, v.term, v.fetched_at, v.created_at,
+                 c.version is not null as is_current
+               from ${VERSIONS_TABLE} v
+               left join ${CURRENT_TABLE} c on c.version = v.version
+               where ? is null or lower(v.term) = lower(?)
+               order by v.created_at desc, v.rowid desc
+               limit ?`
+            )
+            .all(
+              options.term ?? null,
+              options.term ?? null,
+              options.limit ?? -1
+            ) as Array<{
+            version: string;
+            term: string;
+            fetched_at: string;
+            created_at: string | null;
+            is_current: number;
+          }>
+        ).map((row) => ({
+          version: row.version,
+          term: row.term,
+          fetchedAt: row.fetched_at,
+          createdAt: row.created_at,
+          isCurrent: row.is_current === 1,
+        }))
+      );
+    },
+    async loadVersion(version) {
+      return read(null, (db) => {
+        const row = db
+          .prepare(`select data from ${VERSIONS_TABLE} where version = ?`)
+          .get(version) as { data: string } | undefined;
+        return row ? parse(row.data) : null;
+      });
+    },
+    async save(dataset) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      const version = datasetVersion(dataset);
+      const db = open(false);
+      try {
+        db.transaction(() => {
+          db.prepare(
+            `insert into ${VERSIONS_TABLE} (version, term, fetched_at, data)
+             values (?, ?, ?, ?)
+             on conflict(version) do nothing`
+          ).run(
+            version,
+            dataset.term,
+            dataset.fetchedAt,
+            JSON.stringify(dataset)
+          );
+          db.prepare(
+            `insert into ${CURRENT_TABLE} (term, version) values (?, ?)
+             on conflict(term) do update set
+               version = excluded.version,
+               updated_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now')`
+          ).run(dataset.term, version);
+        })();
+      } finally {
+        db.close();
+      }
+      return version;
+    },
+    async loadLegacy() {
+      return read(
+        [],
+        (db) =>
+          (
+            db.prepare(`select data from ${LEGACY_TABLE}`).all() as Array<{
+              data: string;
+            }>
+          ).map((row) => parse(row.data)),
+        [LEGACY_TABLE]
+      );
+    },
+  };
+}
+
+// The directory the fetch and scrape scripts write to: raw STARS output plus
+// classroom metadata, merged on load. Extra terms sit alongside the default
+// file as `stars-open-rooms-<term>.json`. Each file counts as one version, and
+// the newest `fetchedAt` per term is current.
+export function createLocalDirectorySource(
+  directory: string,
+  scheduleForTerm: DatasetSourceOptions["scheduleForTerm"]
+): DatasetSource {
+  const readJson = <T>(fileName: string): T | null => {
+    const filePath = path.join(directory, fileName);
+    if (!fs.existsSync(filePath)) return null;
+    return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+  };
+
+  const readAll = () => {
+    if (!fs.existsSync(directory)) return [];
+    const starsFiles = fs
+      .readdirSync(directory)
+      .filter((name) => /^stars-open-rooms(-.+)?\.json$/.test(name))
+      .sort();
+    if (starsFiles.length === 0) return [];
+
+    const classrooms = readJson<RawClassroomDataset>("classrooms.json");
+    const entries = starsFiles.flatMap((fileName) => {
+      const stars = readJson<RawStarsData>(fileName);
+      if (!stars) return [];
+      const schedule = scheduleForTerm(stars.term);
+      const dataset = normalizeAvailabilityDataset(
+        buildAvailabilityDataset(stars, classrooms, schedule),
+        schedule
+      );
+      return [
+        {
+          dataset,
+          version: datasetVersion(dataset),
+          createdAt: fs
+            .statSync(path.join(directory, fileName))
+            .mtime.toISOString(),
+        },
+      ];
+    });
+
+    const current = new Map<string, (typeof entries)[number]>();
+    entries.forEach((entry) => {
+      const existing = current.get(entry.dataset.term);
+      if (!existing || existing.dataset.fetchedAt < entry.dataset.fetchedAt) {
+        current.set(entry.dataset.term, entry);
+      }
+    });
+    return entries.map((entry) => ({
+      ...entry,
+      isCurrent: current.get(entry.dataset.term) === entry,
+    }));
+  };
+
+  return {
+    kind: "local",
+    location: directory,
+    async load() {
+      return readAll()
+        .filter((entry) => entry.isCurrent)
+        .map((entry) => entry.dataset);
+    },
+    async listVersions(options = {}) {
+      const term = options.term?.toLowerCase();
+      const versions = readAll()
+        .filter((entry) => !term || entry.dataset.term.toLowerCase() === term)
+        .sort((a, b) => b.dataset.fetchedAt.localeCompare(a.dataset.fetchedAt))
+        .map(({ dataset, version, createdAt, isCurrent }) => ({
+          version,
+          term: dataset.term,
+          fetchedAt: dataset.fetchedAt,
+          createdAt,
+          isCurrent,
+        }));
+      return options.limit ? versions.slice(0, options.limit) : versions;
+    },
+    async loadVersion(version) {
+      return (
+        readAll().find((entry) => entry.version === version)?.dataset ?? null
+      );
+    },
+  };
+}
+
+export function parseSourceOrder(
+  value: string | undefined
+): DatasetSourceKind[] {
+  if (!value?.trim()) return DEFAULT_SOURCE_ORDER;
+  return value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean)
+    .map((item) => {
+      if (!DEFAULT_SOURCE_ORDER.includes(item as DatasetSourceKind)) {
+        throw new RangeError(
+          `Unknown dataset source "${item}" in DATASET_SOURCES.`
+        );
+      }
+      return item as DatasetSourceKind;
+    });
+}
+
+// Resolution order comes from DATASET_SOURCES (default supabase,sqlite,local).
+// Supabase is skipped without a client; paths are relative to the backend root.
+export function resolveDatasetSources(
+  options: DatasetSourceOptions
+): DatasetSource[] {
+  const env = options.env ?? process.env;
+  const localDir = path.resolve(options.backendRoot, env.DATASET_DIR || "data");
+  const sqlitePath = path.resolve(
+    options.backendRoot,
+    env.DATASET_SQLITE_PATH || path.join(localDir, "availability.sqlite")
+  );
+
+  return parseSourceOrder(env.DATASET_SOURCES).flatMap(
+    (kind): DatasetSource[] => {
+      if (kind === "supabase") {
+        return options.supabase
+          ? [createSupabaseSource(options.supabase, options.scheduleForTerm)]
+          : [];
+      }
+      if (kind === "sqlite") {
+        return [createSqliteSource(sqlitePath, options.scheduleForTerm)];
+      }
+      return [createLocalDirectorySource(localDir, options.scheduleForTerm)];
+    }
+  );
+}
+
+// A source whose versioned tables are missing or empty still serves its
+// legacy table, so deploying before running `npm run migrate:snapshots` does
+// not silently fall through to the local files.
+export async function loadFromSources(
+  sources: DatasetSource[]
+): Promise<LoadedDatasets | null> {
+  for (const source of sources) {
+    try {
+      const datasets = await source.load();
+      if (datasets.length > 0) {
+        return { datasets, source: source.kind, location: source.location };
+      }
+    } catch (error) {
+      console.warn(
+        `Dataset source ${source.kind} (${source.location}) failed; trying the next one:`,
+        error
+      );
+    }
+
+    if (!source.loadLegacy) continue;
+    try {
+      const datasets = await source.loadLegacy();
+      if (datasets.length > 0) {
+        console.warn(
+          `Dataset source ${source.kind} has no versioned snapshots; serving ${LEGACY_TABLE}. Run \`npm run migrate:snapshots\` to copy it into ${VERSIONS_TABLE}.`
+        );
+        return {
+          datasets,
+          source: source.kind,
+          location: `${source.location} (${LEGACY_TABLE})`,
+          legacy: true,
+        };
+      }
+    } catch {
+      // Most deployments never had the legacy table.
+    }
+  }
+  return null;
+}
@@ -0,0 +1,164 @@
+import { AMENITY_DISPLAY_ORDER } from "./amenities.js";
+import type { TimeContext } from "./availability.js";
+import type { FlatRoom } from "./roomList.js";
+import { pickStatusRecord } from "./roomStream.js";
+
+export const ROOM_FACETS = [
+  "amenities",
+  "capacity",
+  "buildings",
+  "availability",
+] as const;
+
+export type RoomFacet = (typeof ROOM_FACETS)[number];
+
+// Lower bounds of the capacity histogram buckets; the last one is open-ended.
+const CAPACITY_BUCKETS = [1, 20, 40, 60, 100, 150, 250, 400];
+
+export interface CapacityBucket {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface RoomFacets {
+  amenities?: Record<string, number>;
+  capacity?: {
+    min: number | null;
+    max: number | null;
+    unknown: number;
+    buckets: CapacityBucket[];
+  };
+  buildings?: Array<{
+    id: string;
+    code: string | null;
+    name: string;
+    count: number;
+  }>;
+  availability?: {
+    openNow: number;
+    laterToday: number;
+    notToday: number;
+  };
+}
+
+export interface FacetFilters {
+  buildingId?: string | null;
+  buildingCode?: string | null;
+  minCapacity?: number | null;
+  maxCapacity?: number | null;
+}
+
+function matchesBuilding(room: FlatRoom, filters: FacetFilters): boolean {
+  if (filters.buildingId && room.building.id !== filters.buildingId) {
+    return false;
+  }
+  return (
+    !filters.buildingCode ||
+    room.building.code?.toUpperCase() === filters.buildingCode.toUpperCase()
+  );
+}
+
+function matchesCapacity(room: FlatRoom, filters: FacetFilters): boolean {
+  if (!filters.minCapacity && !filters.maxCapacity) return true;
+  if (room.capacity === null) return false;
+  if (filters.minCapacity && room.capacity < filters.minCapacity) return false;
+  return !filters.maxCapacity || room.capacity <= filters.maxCapacity;
+}
+
+function capacityFacet(rooms: FlatRoom[]): RoomFacets["capacity"] {
+  const capacities = rooms
+    .map((room) => room.capacity)
+    .filter((capacity): capacity is number => capacity !== null);
+  return {
+    min: capacities.length > 0 ? Math.min(...capacities) : null,
+    max: capacities.length > 0 ? Math.max(...capacities) : null,
+    unknown: rooms.length - capacities.length,
+    buckets: CAPACITY_BUCKETS.map((min, index) => {
+      const next = CAPACITY_BUCKETS[index + 1];
+      return {
+        min,
+        max: next === undefined ? null : next - 1,
+        count: capacities.filter(
+          (capacity) =>
+            capacity >= min && (next === undefined || capacity < next)
+        ).length,
+      };
+    }),
+  };
+}
+
+function buildingFacet(rooms: FlatRoom[]): RoomFacets["buildings"] {
+  const counts = new Map<
+    string,
+    { id: string; code: string | null; name: string; count: number }
+  >();
+  rooms.forEach(({ building }) => {
+    const entry = counts.get(building.id) ?? {
+      id: building.id,
+      code: building.code,
+      name: building.name,
+      count: 0,
+    };
+    entry.count += 1;
+    counts.set(building.id, entry);
+  });
+  return Array.from(counts.values()).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+function availabilityFacet(
+  rooms: FlatRoom[],
+  context: TimeContext | null
+): RoomFacets["availability"] {
+  const counts = { openNow: 0, laterToday: 0, notToday: 0 };
+  rooms.forEach((room) => {
+    const record = pickStatusRecord(room.availability ?? {});
+    if (record?.isAvailableNow) {
+      counts.openNow += 1;
+    } else if (context && record?.nextAvailable?.date === context.date) {
+      counts.laterToday += 1;
+    } else {
+      counts.notToday += 1;
+    }
+  });
+  return counts;
+}
+
+// `rooms` must already carry live statuses and every filter except building
+// and capacity. Each facet then applies the remaining filters but its own, so
+// the capacity range and building counts don't collapse onto the current
+// selection; amenity counts say how many rooms would remain after also
+// requiring that amenity.
+export function computeRoomFacets(
+  rooms: FlatRoom[],
+  requested: RoomFacet[],
+  filters: FacetFilters,
+  context: TimeContext | null
+): RoomFacets {
+  const inBuilding = rooms.filter((room) => matchesBuilding(room, filters));
+  const matching = inBuilding.filter((room) => matchesCapacity(room, filters));
+  const facets: RoomFacets = {};
+
+  if (requested.includes("amenities")) {
+    facets.amenities = Object.fromEntries(
+      AMENITY_DISPLAY_ORDER.map((slug) => [
+        slug,
+        matching.filter((room) => room.amenities.includes(slug)).length,
+      ])
+    );
+  }
+  if (requested.includes("capacity")) {
+    facets.capacity = capacityFacet(inBuilding);
+  }
+  if (requested.includes("buildings")) {
+    facets.buildings = buildingFacet(
+      rooms.filter((room) => matchesCapacity(room, filters))
+    );
+  }
+  if (requested.includes("availability")) {
+    facets.availability = availabilityFacet(matching, context);
+  }
+  return facets;
+}
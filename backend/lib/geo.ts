@@ -0,0 +1,94 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+// Accepts "lat,lng" in decimal degrees, e.g. "29.6465,-82.3533".
+export function parseCoordinates(value: string): Coordinates | null {
+  const parts = value.split(",").map((part) => part.trim());
+  if (parts.length !== 2 || parts.some((part) => part === "")) return null;
+  const [lat, lng] = parts.map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+export function haversineMeters(from: Coordinates, to: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) *
+      Math.cos(toRadians(to.lat)) *
+      Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+// Straight-line distance at an unhurried walking pace, padded for paths that
+// wind between buildings.
+const WALKING_METERS_PER_MINUTE = 80;
+const WALKING_DETOUR_FACTOR = 1.3;
+
+export function estimateWalkingMinutes(meters: number): number {
+  return Math.max(
+    1,
+    Math.ceil((meters * WALKING_DETOUR_FACTOR) / WALKING_METERS_PER_MINUTE)
+  );
+}
+
+// Accepts meters ("800", "800m") or kilometers ("1.5km").
+export function parseRadius(value: string): number | null {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+(?:\.\d+)?)\s*(m|km)?$/);
+  if (!match) return null;
+  const meters = Number(match[1]) * (match[2] === "km" ? 1000 : 1);
+  return meters > 0 ? meters : null;
+}
+
+export interface Located {
+  distanceMeters: number;
+  walkingMinutes: number;
+}
+
+export interface ProximityResult<T> {
+  located: Array<T & Located>;
+  unlocated: T[];
+}
+
+// Orders places by distance from `origin`, dropping those beyond `radius`.
+// Places without coordinates are returned separately so callers can report
+// them instead of losing them.
+export function rankByDistance<
+  T extends { lat: number | null; lng: number | null }
+>(
+  places: T[],
+  origin: Coordinates,
+  radiusMeters?: number | null
+): ProximityResult<T> {
+  const located: Array<T & Located> = [];
+  const unlocated: T[] = [];
+
+  places.forEach((place) => {
+    if (place.lat === null || place.lng === null) {
+      unlocated.push(place);
+      return;
+    }
+    const distanceMeters = Math.round(
+      haversineMeters(origin, { lat: place.lat, lng: place.lng })
+    );
+    if (radiusMeters && distanceMeters > radiusMeters) return;
+    located.push({
+      ...place,
+      distanceMeters,
+      walkingMinutes: estimateWalkingMinutes(distanceMeters),
+    });
+  });
+
+  located.sort((a, b) => a.distanceMeters - b.distanceMeters);
+  return { located, unlocated };
+}
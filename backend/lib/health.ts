@@ -0,0 +1,99 @@
+import type { AvailabilityDataset } from "./availability.js";
+import type { CalendarDayState } from "./calendar.js";
+
+export type HealthStatus = "ok" | "degraded";
+
+export interface DatasetHealth {
+  term: string;
+  fetchedAt: string | null;
+  ageHours: number | null;
+  isStale: boolean;
+  buildingCount: number;
+  roomCount: number;
+  // Rooms matched to a classrooms.json entry (photos, amenities, capacity).
+  metadataMatched: number;
+  metadataMatchRate: number | null;
+}
+
+export interface HealthOptions {
+  staleAfterHours: number;
+  now?: Date;
+  // Today's academic-calendar state; an uncovered date degrades the status.
+  calendarDay?: CalendarDayState | null;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  issues: string[];
+  staleAfterHours: number;
+  defaultTerm: DatasetHealth;
+  terms: DatasetHealth[];
+}
+
+export function describeDatasetHealth(
+  dataset: AvailabilityDataset,
+  options: HealthOptions
+): DatasetHealth {
+  const now = options.now ?? new Date();
+  const fetchedAtMs = Date.parse(dataset.fetchedAt);
+  const ageHours = Number.isNaN(fetchedAtMs)
+    ? null
+    : Math.round(((now.getTime() - fetchedAtMs) / 3_600_000) * 10) / 10;
+  const rooms = dataset.buildings.flatMap((building) => building.rooms);
+  const metadataMatched = rooms.filter((room) => room.metadata).length;
+
+  return {
+    term: dataset.term,
+    fetchedAt: dataset.fetchedAt || null,
+    ageHours,
+    isStale: ageHours === null || ageHours > options.staleAfterHours,
+    buildingCount: dataset.buildings.length,
+    roomCount: rooms.length,
+    metadataMatched,
+    metadataMatchRate:
+      rooms.length > 0
+        ? Math.round((metadataMatched / rooms.length) * 1000) / 1000
+        : null,
+  };
+}
+
+// Only the default term decides the status: a next-term dataset loaded for
+// registration is allowed to lag behind.
+export function assessHealth(
+  datasets: AvailabilityDataset[],
+  defaultDataset: AvailabilityDataset,
+  loadedFromSource: boolean,
+  options: HealthOptions
+): HealthReport {
+  const terms = datasets.map((dataset) =>
+    describeDatasetHealth(dataset, options)
+  );
+  const defaultTerm = describeDatasetHealth(defaultDataset, options);
+  const issues: string[] = [];
+
+  if (!loadedFromSource) {
+    issues.push("No dataset source returned data; serving an empty dataset.");
+  } else if (defaultTerm.buildingCount === 0) {
+    issues.push(`The dataset for ${defaultTerm.term} has no buildings.`);
+  }
+  if (loadedFromSource && defaultTerm.isStale) {
+    issues.push(
+      defaultTerm.ageHours === null
+        ? `The dataset for ${defaultTerm.term} has no valid fetchedAt.`
+        : `The dataset for ${defaultTerm.term} was fetched ${defaultTerm.ageHours} hours ago (threshold ${options.staleAfterHours}).`
+    );
+  }
+  if (options.calendarDay?.mode === "unknown") {
+    issues.push(
+      `The academic calendar does not cover ${options.calendarDay.date}; no room is reported free until it is updated.`
+    );
+  }
+
+  return {
+    status: issues.length > 0 ? "degraded" : "ok",
+    issues,
+    staleAfterHours: options.staleAfterHours,
+    defaultTerm,
+    terms,
+  };
+}
@@ -0,0 +1,195 @@
+import {
+  buildFreeBlocks,
+  DAY_SEQUENCE,
+  freeBlocksForDate,
+  mergeRoomPeriods,
+  PERIOD_DEFINITIONS,
+  type BuildingAvailability,
+  type RoomAvailability,
+  type StatusOptions,
+} from "./availability.js";
+import { resolveBuildingHours } from "./buildingHours.js";
+import {
+  addDays,
+  dayCodeForDate,
+  resolveCalendarDay,
+  type AcademicTerm,
+} from "./calendar.js";
+
+export interface RoomCalendarOptions extends StatusOptions {
+  days?: string[] | null;
+  minMinutes?: number;
+  term?: AcademicTerm | null;
+  now?: Date;
+}
+
+const TIMEZONE = "America/New_York";
+
+const RRULE_DAYS: Record<string, string> = {
+  M: "MO",
+  T: "TU",
+  W: "WE",
+  TH: "TH",
+  F: "FR",
+  S: "SA",
+  SU: "SU",
+};
+
+// Eastern time zone rules in effect since 2007.
+const VTIMEZONE = [
+  "BEGIN:VTIMEZONE",
+  `TZID:${TIMEZONE}`,
+  "BEGIN:DAYLIGHT",
+  "TZOFFSETFROM:-0500",
+  "TZOFFSETTO:-0400",
+  "TZNAME:EDT",
+  "DTSTART:19700308T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU",
+  "END:DAYLIGHT",
+  "BEGIN:STANDARD",
+  "TZOFFSETFROM:-0400",
+  "TZOFFSETTO:-0500",
+  "TZNAME:EST",
+  "DTSTART:19701101T020000",
+  "RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU",
+  "END:STANDARD",
+  "END:VTIMEZONE",
+];
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/\n/g, "\\n")
+    .replace(/([,;])/g, "\\$1");
+}
+
+// RFC 5545 lines are folded at 75 octets; the leading space of a
+// continuation line counts toward its limit, leaving 74 for content.
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let remaining = line;
+  let budget = 75;
+  while (Buffer.byteLength(remaining, "utf8") > budget) {
+    let cut = Math.min(remaining.length, budget);
+    while (Buffer.byteLength(remaining.slice(0, cut), "utf8") > budget) {
+      cut -= 1;
+    }
+    chunks.push(remaining.slice(0, cut));
+    remaining = remaining.slice(cut);
+    budget = 74;
+  }
+  chunks.push(remaining);
+  return chunks.join("\r\n ");
+}
+
+function compactDate(isoDate: string): string {
+  return isoDate.replace(/-/g, "");
+}
+
+function localDateTime(isoDate: string, minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, "0");
+  const mins = (minutes % 60).toString().padStart(2, "0");
+  return `${compactDate(isoDate)}T${hours}${mins}00`;
+}
+
+function utcStamp(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function firstOnOrAfter(isoDate: string, dayCode: string): string {
+  let date = isoDate;
+  for (let offset = 0; offset < 7; offset += 1) {
+    if (dayCodeForDate(date) === dayCode) return date;
+    date = addDays(date, 1);
+  }
+  return isoDate;
+}
+
+// One weekly-recurring VEVENT per free block. Term dates bound the series and
+// days the academic calendar closes or reschedules become EXDATEs.
+export function buildRoomCalendar(
+  building: BuildingAvailability,
+  room: RoomAvailability,
+  options: RoomCalendarOptions = {}
+): string {
+  const now = options.now ?? new Date();
+  const schedule = options.schedule ?? PERIOD_DEFINITIONS;
+  const hours = resolveBuildingHours(options.buildingHours, building);
+  const term = options.term ?? null;
+  const minMinutes = options.minMinutes ?? 0;
+  const days = options.days?.length ? options.days : DAY_SEQUENCE;
+  const roomLabel = `${building.code ?? building.name} ${room.number}`;
+  const seriesStart = term?.start ?? now.toISOString().slice(0, 10);
+
+  const weekly = buildFreeBlocks(mergeRoomPeriods(room));
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FreeRooms@UF//Room availability//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(`${roomLabel} free time`)}`,
+    `X-WR-TIMEZONE:${TIMEZONE}`,
+    ...VTIMEZONE,
+  ];
+
+  days.forEach((day) => {
+    const firstDate = firstOnOrAfter(seriesStart, day);
+    const blocks = freeBlocksForDate(weekly, day, firstDate, {
+      calendar: null,
+      schedule,
+      hours,
+    }).filter((block) => block.endMinutes - block.startMinutes >= minMinutes);
+    if (blocks.length === 0) return;
+
+    const excluded: string[] = [];
+    if (term) {
+      for (let date = firstDate; date <= term.end; date = addDays(date, 7)) {
+        const mode = resolveCalendarDay(options.calendar, date).mode;
+        if (mode !== "classes" && mode !== "open") excluded.push(date);
+      }
+    }
+
+    blocks.forEach((block) => {
+      const rrule = term
+        ? `RRULE:FREQ=WEEKLY;BYDAY=${RRULE_DAYS[day]};UNTIL=${compactDate(
+            addDays(term.end, 1)
+          )}T035959Z`
+        : `RRULE:FREQ=WEEKLY;BYDAY=${RRULE_DAYS[day]}`;
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${escapeText(
+          `${building.code ?? building.id}-${room.number}-${day}-${
+            block.startMinutes
+          }`
+        )}@freerooms-uf`,
+        `DTSTAMP:${utcStamp(now)}`,
+        `DTSTART;TZID=${TIMEZONE}:${localDateTime(
+          firstDate,
+          block.startMinutes
+        )}`,
+        `DTEND;TZID=${TIMEZONE}:${localDateTime(firstDate, block.endMinutes)}`,
+        rrule,
+        ...excluded.map(
+          (date) =>
+            `EXDATE;TZID=${TIMEZONE}:${localDateTime(date, block.startMinutes)}`
+        ),
+        `SUMMARY:${escapeText(`${roomLabel} free`)}`,
+        `LOCATION:${escapeText(`${building.name} ${room.number}`)}`,
+        `DESCRIPTION:${escapeText(
+          `Free during periods ${block.periods.join(", ")}`
+        )}`,
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT"
+      );
+    });
+  });
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
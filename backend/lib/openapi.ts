@@ -0,0 +1,375 @@
+import type { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  buildingResponse,
+  buildingsResponse,
+  healthResponse,
+  openApiResponse,
+  readyResponse,
+  reloadResponse,
+  roomResponse,
+  roomScheduleResponse,
+  roomsOpenResponse,
+  roomsStreamEvents,
+  searchGroupResponse,
+  searchRecurringResponse,
+  searchSlotsResponse,
+  snapshotsDiffResponse,
+  snapshotsResponse,
+  termsResponse,
+} from "./responses.js";
+import type { RouteSchema, RouteSchemas } from "./validation.js";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface ApiRouteDoc {
+  method: "get" | "post";
+  // Express-style path; `:param` segments become `{param}`.
+  path: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  schema?: keyof RouteSchemas;
+  // Body of the 200 response; only JSON routes have one.
+  response?: z.ZodTypeAny;
+  contentType?: string;
+  // `data` payloads of a text/event-stream route, keyed by event name.
+  events?: Record<string, z.ZodTypeAny>;
+  security?: boolean;
+  // Routes that look up a resource by something other than a path param.
+  notFound?: boolean;
+  unavailable?: boolean;
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description?: string;
+}
+
+// Every public route is listed here, and test/openapi.test.ts fails when this
+// list and the routes server.ts registers disagree. Parameters come from the
+// zod schemas the route validates against; response bodies from responses.ts.
+export const API_ROUTES: ApiRouteDoc[] = [
+  {
+    method: "get",
+    path: "/api/health",
+    summary: "Service status, dataset freshness and coverage",
+    description:
+      "Always 200 while the process is up; `status` is `degraded` (and `ok` false) when no dataset loaded, the default term is empty or older than DATASET_STALE_HOURS, or the academic calendar does not cover today.",
+    tags: ["Meta"],
+    response: healthResponse,
+  },
+  {
+    method: "get",
+    path: "/api/ready",
+    summary: "Readiness probe; 503 until a dataset has loaded",
+    tags: ["Meta"],
+    response: readyResponse,
+    unavailable: true,
+  },
+  {
+    method: "get",
+    path: "/api/openapi.json",
+    summary: "This OpenAPI document",
+    tags: ["Meta"],
+    response: openApiResponse,
+  },
+  {
+    method: "get",
+    path: "/api/docs",
+    summary: "Interactive documentation for this API",
+    tags: ["Meta"],
+    contentType: "text/html",
+  },
+  {
+    method: "get",
+    path: "/api/terms",
+    summary: "Loaded terms and which one is served by default",
+    tags: ["Meta"],
+    response: termsResponse,
+  },
+  {
+    method: "post",
+    path: "/api/admin/reload",
+    summary: "Reload the dataset from the configured sources",
+    tags: ["Admin"],
+    response: reloadResponse,
+    security: true,
+  },
+  {
+    method: "get",
+    path: "/api/rooms/open",
+    summary: "Rooms with their live availability",
+    description:
+      "Buildings and rooms with STARS free periods and the status at the evaluated time.",
+    tags: ["Rooms"],
+    schema: "roomsOpen",
+    response: roomsOpenResponse,
+  },
+  {
+    method: "get",
+    path: "/api/rooms/stream",
+    summary: "Server-Sent Events feed of room status changes",
+    description:
+      "Sends a `snapshot` event with every matching room on connect, then `status` events with the rooms that changed at each period boundary and whenever a new dataset is loaded.",
+    tags: ["Rooms"],
+    schema: "roomsStream",
+    contentType: "text/event-stream",
+    events: roomsStreamEvents,
+  },
+  {
+    method: "get",
+    path: "/api/rooms/:id",
+    summary: "One room with its live availability",
+    tags: ["Rooms"],
+    schema: "room",
+    response: roomResponse,
+  },
+  {
+    method: "get",
+    path: "/api/rooms/:id/schedule",
+    summary: "Weekly free/busy grid for a room",
+    tags: ["Rooms"],
+    schema: "roomSchedule",
+    response: roomScheduleResponse,
+  },
+  {
+    method: "get",
+    path: "/api/rooms/:id/calendar.ics",
+    summary: "iCalendar feed of a room's weekly free blocks",
+    tags: ["Rooms"],
+    schema: "roomCalendar",
+    contentType: "text/calendar",
+  },
+  {
+    method: "get",
+    path: "/api/buildings",
+    summary: "Buildings with hours and open-room counts",
+    tags: ["Buildings"],
+    schema: "buildings",
+    response: buildingsResponse,
+  },
+  {
+    method: "get",
+    path: "/api/buildings/:idOrCode",
+    summary: "One building with every room's status and live aggregates",
+    description:
+      "Counts of rooms open now and later today, the largest open room, amenities across the building, and the next opening when nothing is free.",
+    tags: ["Buildings"],
+    schema: "building",
+    response: buildingResponse,
+  },
+  {
+    method: "get",
+    path: "/api/search/slots",
+    summary: "Rooms free for a given duration on one day",
+    tags: ["Search"],
+    schema: "searchSlots",
+    response: searchSlotsResponse,
+  },
+  {
+    method: "get",
+    path: "/api/search/recurring",
+    summary: "Rooms free for the same periods every week",
+    tags: ["Search"],
+    schema: "searchRecurring",
+    response: searchRecurringResponse,
+  },
+  {
+    method: "get",
+    path: "/api/search/group",
+    summary: "Buildings with several rooms free together",
+    tags: ["Search"],
+    schema: "searchGroup",
+    response: searchGroupResponse,
+  },
+  {
+    method: "get",
+    path: "/api/snapshots",
+    summary: "Stored dataset versions, newest first",
+    tags: ["Snapshots"],
+    schema: "snapshots",
+    response: snapshotsResponse,
+  },
+  {
+    method: "get",
+    path: "/api/snapshots/diff",
+    summary: "Rooms, free periods and metadata changed between two versions",
+    tags: ["Snapshots"],
+    schema: "snapshotsDiff",
+    response: snapshotsDiffResponse,
+    notFound: true,
+  },
+];
+
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema: _ignored, ...json } = zodToJsonSchema(schema, {
+    target: "jsonSchema2019-09",
+    effectStrategy: "input",
+    $refStrategy: "none",
+  }) as JsonSchema;
+  return json;
+}
+
+function toParameters(
+  location: "path" | "query",
+  schema: z.ZodTypeAny | undefined
+) {
+  if (!schema) return [];
+  const json = toJsonSchema(schema);
+  const properties = (json.properties ?? {}) as Record<string, JsonSchema>;
+  const required = new Set((json.required ?? []) as string[]);
+
+  return Object.entries(properties).map(([name, property]) => {
+    const { description, ...propertySchema } = property;
+    return {
+      name,
+      in: location,
+      required: location === "path" || required.has(name),
+      ...(description ? { description } : {}),
+      // Lists are sent comma-separated (`periods=4,5`) rather than repeated.
+      ...(propertySchema.type === "array"
+        ? { style: "form", explode: false }
+        : {}),
+      schema: propertySchema,
+    };
+  });
+}
+
+const ERROR_RESPONSE = {
+  description: "Error",
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Error" } },
+  },
+};
+
+export function buildOpenApiDocument(
+  schemas: RouteSchemas,
+  info: OpenApiInfo,
+  routes: ApiRouteDoc[] = API_ROUTES
+) {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  routes.forEach((route) => {
+    const schema: RouteSchema | undefined = route.schema
+      ? schemas[route.schema]
+      : undefined;
+    const openApiPath = route.path.replace(/:([A-Za-z]+)/g, "{$1}");
+    const responses: Record<string, unknown> = {
+      200: {
+        description: "OK",
+        content: {
+          [route.contentType ?? "application/json"]: {
+            schema: route.response
+              ? toJsonSchema(route.response)
+              : { type: "string" },
+            ...(route.events
+              ? {
+                  "x-events": Object.fromEntries(
+                    Object.entries(route.events).map(([event, data]) => [
+                      event,
+                      toJsonSchema(data),
+                    ])
+                  ),
+                }
+              : {}),
+          },
+        },
+      },
+    };
+    if (schema) {
+      responses[400] = {
+        description: "Invalid parameters",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/ValidationError" },
+          },
+        },
+      };
+    }
+    if (schema?.params || route.notFound) responses[404] = ERROR_RESPONSE;
+    if (route.security) responses[401] = ERROR_RESPONSE;
+    if (route.security || route.unavailable) responses[503] = ERROR_RESPONSE;
+
+    paths[openApiPath] = {
+      ...paths[openApiPath],
+      [route.method]: {
+        summary: route.summary,
+        ...(route.description ? { description: route.description } : {}),
+        tags: route.tags,
+        parameters: [
+          ...toParameters("path", schema?.params),
+          ...toParameters("query", schema?.query),
+        ],
+        ...(route.security ? { security: [{ adminToken: [] }] } : {}),
+        responses,
+      },
+    };
+  });
+
+  return {
+    openapi: "3.1.0",
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        adminToken: { type: "http", scheme: "bearer" },
+      },
+      schemas: {
+        Error: {
+          type: "object",
+          properties: { error: { type: "string" } },
+          required: ["error"],
+        },
+        ValidationError: {
+          type: "object",
+          properties: {
+            error: { type: "string" },
+            issues: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  in: { type: "string", enum: ["params", "query"] },
+                  field: { type: "string" },
+                  message: { type: "string" },
+                },
+                required: ["in", "field", "message"],
+              },
+            },
+          },
+          required: ["error", "issues"],
+        },
+      },
+    },
+  };
+}
+
+// `assetsUrl` is where the server mounts the swagger-ui-dist package, so the
+// page loads no third-party script.
+export function renderDocsPage(
+  specUrl: string,
+  title: string,
+  assetsUrl: string
+): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${title}</title>
+    <link rel="stylesheet" href="${assetsUrl}/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="swagger-ui"></div>
+    <script src="${assetsUrl}/swagger-ui-bundle.js"></script>
+    <script>
+      window.ui = SwaggerUIBundle({ url: ${JSON.stringify(
+        specUrl
+      )}, dom_id: "#swagger-ui" });
+    </script>
+  </body>
+</html>
+`;
+}
@@ -0,0 +1,78 @@
+import {
+  DAY_SEQUENCE,
+  type PeriodEntry,
+  type SizeAvailability,
+} from "./availability.js";
+
+export const PERIOD_MATCH_MODES = ["any", "all"] as const;
+
+export type PeriodMatchMode = (typeof PERIOD_MATCH_MODES)[number];
+
+// `null` days or periods leave that dimension unconstrained.
+export interface PeriodMatch {
+  days: string[] | null;
+  periods: Set<string> | null;
+  match: PeriodMatchMode;
+}
+
+export interface MatchedPeriod {
+  day: string;
+  period: string;
+}
+
+export function createPeriodMatch(query: {
+  days?: string[] | null;
+  periods?: Set<string> | null;
+  match?: PeriodMatchMode | null;
+}): PeriodMatch | null {
+  const days = query.days ?? null;
+  const periods = query.periods ?? null;
+  if (!days && !periods) return null;
+  return { days, periods, match: query.match ?? "any" };
+}
+
+// Keeps the entries that satisfy the match, or returns null when the room
+// doesn't qualify. `any` keeps every free combination of the requested days
+// and periods; `all` needs each requested period free on each requested day,
+// so the kept entries are exactly days × periods.
+export function matchPeriodEntries(
+  entries: PeriodEntry[],
+  filter: PeriodMatch
+): PeriodEntry[] | null {
+  const matched = entries.filter(
+    (entry) =>
+      (!filter.days || filter.days.includes(entry.day)) &&
+      (!filter.periods || filter.periods.has(entry.period))
+  );
+  if (matched.length === 0) return null;
+  if (filter.match === "any" || !filter.days || !filter.periods) {
+    return matched;
+  }
+
+  const free = new Set(matched.map((entry) => `${entry.day}-${entry.period}`));
+  const periods = Array.from(filter.periods);
+  const isComplete = filter.days.every((day) =>
+    periods.every((period) => free.has(`${day}-${period}`))
+  );
+  return isComplete ? matched : null;
+}
+
+// The day/period combinations that matched, merged across size buckets and
+// ordered by weekday and start time.
+export function listMatchedPeriods(
+  availability: Record<string, SizeAvailability> | undefined
+): MatchedPeriod[] {
+  const entries = new Map<string, PeriodEntry>();
+  Object.values(availability ?? {}).forEach((record) => {
+    (record.periods ?? []).forEach((entry) => {
+      entries.set(`${entry.day}-${entry.period}`, entry);
+    });
+  });
+  return Array.from(entries.values())
+    .sort(
+      (a, b) =>
+        DAY_SEQUENCE.indexOf(a.day) - DAY_SEQUENCE.indexOf(b.day) ||
+        a.startMinutes - b.startMinutes
+    )
+    .map(({ day, period }) => ({ day, period }));
+}
@@ -0,0 +1,30 @@
+export interface PeriodDefinition {
+  start: string;
+  end: string;
+}
+
+export type PeriodSchedule = Record<string, PeriodDefinition>;
+
+export interface PeriodScheduleConfig {
+  default?: string;
+  // Keys are full term names ("Summer 2026") or seasons ("Summer").
+  terms?: Record<string, string>;
+  schedules: Record<string, PeriodSchedule>;
+}
+
+export function resolvePeriodSchedule(
+  config: PeriodScheduleConfig | null | undefined,
+  term: string | null | undefined
+): PeriodSchedule | null {
+  if (!config) return null;
+
+  const terms = config.terms ?? {};
+  const normalizedTerm = term?.trim() ?? "";
+  const season = normalizedTerm.split(/\s+/)[0] ?? "";
+  const name =
+    (normalizedTerm && terms[normalizedTerm]) ||
+    (season && terms[season]) ||
+    config.default;
+
+  return name ? config.schedules[name] ?? null : null;
+}
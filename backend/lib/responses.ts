@@ -0,0 +1,512 @@
+import { z } from "zod";
+import { CALENDAR_DAY_MODES } from "./calendar.js";
+import { PERIOD_MATCH_MODES } from "./periodMatch.js";
+
+// Response bodies of the documented routes, as server.ts sends them. They
+// only feed the OpenAPI document; responses are not validated at runtime.
+
+const nullableString = z.string().nullable();
+const sourceKind = z.enum(["supabase", "sqlite", "local"]);
+// Keyed by term name.
+const snapshotVersions = z.record(z.string());
+
+const periodEntry = z.object({
+  day: z.string(),
+  period: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  startMinutes: z.number(),
+  endMinutes: z.number(),
+});
+
+const nextAvailability = z.object({
+  day: z.string(),
+  dayLabel: z.string(),
+  date: z.string(),
+  period: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+});
+
+const sizeAvailability = z.object({
+  periods: z.array(periodEntry).optional(),
+  isAvailableNow: z.boolean().optional(),
+  nextAvailable: nextAvailability.nullable().optional(),
+  openUntil: nullableString.optional(),
+  freeMinutesRemaining: z.number().nullable().optional(),
+  nextBusyAt: nullableString.optional(),
+});
+
+const roomStatus = z.object({
+  id: z.string(),
+  buildingId: z.string(),
+  number: z.string(),
+  isAvailableNow: z.boolean(),
+  openUntil: nullableString,
+  freeMinutesRemaining: z.number().nullable(),
+  nextAvailable: nextAvailability.nullable(),
+  nextBusyAt: nullableString,
+});
+
+const roomMetadata = z.object({
+  capacity: z.number().nullable(),
+  photo: nullableString,
+  gallery: z.array(z.string()),
+  featureFlags: z.record(z.boolean()),
+  detailUrl: z.string(),
+});
+
+const timeContext = z
+  .object({ dayCode: z.string(), minutes: z.number(), date: z.string() })
+  .describe("The day and minute the statuses were evaluated at.");
+
+const calendarDay = z.object({
+  date: z.string(),
+  term: nullableString,
+  mode: z.enum(CALENDAR_DAY_MODES),
+  label: nullableString,
+  scheduleDay: nullableString,
+});
+
+const openingHours = z.object({ open: z.string(), close: z.string() });
+
+const buildingHours = z.object({
+  weekday: openingHours.nullable(),
+  weekend: openingHours.nullable(),
+  holiday: openingHours.nullable(),
+  closingBufferMinutes: z.number(),
+});
+
+const dayPeriod = z.object({ day: z.string(), period: z.string() });
+
+const coordinates = z.object({ lat: z.number(), lng: z.number() });
+
+const buildingRef = z.object({
+  id: z.string(),
+  code: nullableString,
+  name: z.string(),
+  campusId: nullableString,
+  lat: z.number().nullable(),
+  lng: z.number().nullable(),
+});
+
+const locatedBuildingRef = buildingRef.extend({
+  distanceMeters: z.number().optional(),
+  walkingMinutes: z.number().optional(),
+});
+
+const room = z.object({
+  number: z.string(),
+  amenities: z.array(z.string()),
+  matchedPeriods: z.array(dayPeriod).optional(),
+  metadata: roomMetadata.partial().optional(),
+  availability: z.record(sizeAvailability).optional(),
+});
+
+const flatRoom = room.extend({
+  id: z.string(),
+  building: locatedBuildingRef,
+  capacity: z.number().nullable(),
+});
+
+const roomBuilding = locatedBuildingRef.extend({ rooms: z.array(room) });
+
+const page = z.object({
+  total: z.number(),
+  limit: z.number().nullable(),
+  nextCursor: nullableString,
+});
+
+const roomFacets = z.object({
+  amenities: z.record(z.number()).optional(),
+  capacity: z
+    .object({
+      min: z.number().nullable(),
+      max: z.number().nullable(),
+      unknown: z.number(),
+      buckets: z.array(
+        z.object({
+          min: z.number(),
+          max: z.number().nullable(),
+          count: z.number(),
+        })
+      ),
+    })
+    .optional(),
+  buildings: z
+    .array(
+      z.object({
+        id: z.string(),
+        code: nullableString,
+        name: z.string(),
+        count: z.number(),
+      })
+    )
+    .optional(),
+  availability: z
+    .object({
+      openNow: z.number(),
+      laterToday: z.number(),
+      notToday: z.number(),
+    })
+    .optional(),
+});
+
+const periodSlot = z.object({
+  period: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+});
+
+const buildingSummary = z.object({
+  id: z.string(),
+  code: nullableString,
+  name: z.string(),
+  lat: z.number().nullable(),
+  lng: z.number().nullable(),
+});
+
+const roomSummary = z.object({
+  id: z.string(),
+  number: z.string(),
+  capacity: z.number().nullable(),
+  amenities: z.array(z.string()),
+  detailUrl: nullableString,
+});
+
+const recurringMatch = z.object({
+  building: buildingSummary,
+  room: roomSummary,
+  freeDays: z.array(z.string()),
+  missedDays: z.array(z.string()),
+});
+
+const snapshotVersion = z.object({
+  version: z.string(),
+  term: z.string(),
+  fetchedAt: z.string(),
+  createdAt: nullableString,
+  isCurrent: z.boolean(),
+});
+
+const datasetHealth = z.object({
+  term: z.string(),
+  fetchedAt: nullableString,
+  ageHours: z.number().nullable(),
+  isStale: z.boolean(),
+  buildingCount: z.number(),
+  roomCount: z.number(),
+  metadataMatched: z.number(),
+  metadataMatchRate: z.number().nullable(),
+});
+
+const termDataset = {
+  fetchedAt: z.string(),
+  term: z.string(),
+};
+
+const evaluated = {
+  evaluatedAt: timeContext.nullable(),
+  calendar: calendarDay.nullable(),
+};
+
+const periodGrid = {
+  periodStartTimes: z.record(z.string()),
+  periodSchedule: z.array(periodSlot),
+};
+
+const searchFilters = {
+  minCapacity: z.number().nullable(),
+  amenities: z.array(z.string()),
+  buildingCode: nullableString,
+};
+
+const streamHeader = {
+  term: z.string(),
+  snapshotVersion: z.string(),
+  ...evaluated,
+};
+
+// `data` of the /api/rooms/stream events, keyed by event name.
+export const roomsStreamEvents = {
+  snapshot: z.object({ ...streamHeader, rooms: z.array(roomStatus) }),
+  status: z.object({
+    ...streamHeader,
+    reason: z.enum(["period", "dataset"]),
+    changed: z.array(roomStatus),
+    removed: z.array(z.string()),
+  }),
+};
+
+export const healthResponse = z.object({
+  ok: z.boolean(),
+  status: z.enum(["ok", "degraded"]),
+  issues: z.array(z.string()),
+  env: z.string(),
+  version: z.string(),
+  uptimeSeconds: z.number(),
+  snapshotVersions,
+  loadedAt: z.string(),
+  source: sourceKind.nullable(),
+  sourceLocation: nullableString,
+  staleAfterHours: z.number(),
+  defaultTerm: datasetHealth,
+  terms: z.array(datasetHealth),
+});
+
+export const readyResponse = z.object({
+  ready: z.literal(true),
+  snapshotVersions,
+  source: sourceKind.nullable(),
+});
+
+export const openApiResponse = z
+  .record(z.unknown())
+  .describe("An OpenAPI 3.1 document.");
+
+export const termsResponse = z.object({
+  defaultTerm: z.string(),
+  terms: z.array(
+    z.object({
+      term: z.string(),
+      fetchedAt: z.string(),
+      start: nullableString,
+      end: nullableString,
+      isDefault: z.boolean(),
+      buildingCount: z.number(),
+      roomCount: z.number(),
+      snapshotVersion: z.string(),
+    })
+  ),
+});
+
+export const reloadResponse = z.object({
+  reloaded: z.boolean(),
+  previousVersions: snapshotVersions,
+  snapshotVersions,
+  loadedAt: z.string(),
+  source: sourceKind.nullable(),
+  terms: z.array(z.object(termDataset)),
+});
+
+export const snapshotsResponse = z.object({
+  source: sourceKind,
+  location: z.string(),
+  snapshots: z.array(snapshotVersion.extend({ isServed: z.boolean() })),
+});
+
+const diffBuildingRef = z.object({
+  id: z.string(),
+  code: nullableString,
+  name: z.string(),
+});
+
+const diffRoomRef = z.object({
+  id: z.string(),
+  building: diffBuildingRef,
+  number: z.string(),
+});
+
+const diffEndpoint = z.object({ version: z.string(), ...termDataset });
+
+export const snapshotsDiffResponse = z.object({
+  source: sourceKind,
+  from: diffEndpoint,
+  to: diffEndpoint,
+  summary: z.object({
+    buildingsAdded: z.number(),
+    buildingsRemoved: z.number(),
+    roomsAdded: z.number(),
+    roomsRemoved: z.number(),
+    roomsWithPeriodChanges: z.number(),
+    periodsAdded: z.number(),
+    periodsRemoved: z.number(),
+    roomsWithMetadataChanges: z.number(),
+  }),
+  buildings: z.object({
+    added: z.array(diffBuildingRef),
+    removed: z.array(diffBuildingRef),
+  }),
+  rooms: z.object({
+    added: z.array(diffRoomRef),
+    removed: z.array(diffRoomRef),
+  }),
+  periods: z.array(
+    diffRoomRef.extend({
+      added: z.array(dayPeriod),
+      removed: z.array(dayPeriod),
+    })
+  ),
+  metadata: z.array(
+    diffRoomRef.extend({
+      changes: z.array(
+        z.object({ field: z.string(), from: z.unknown(), to: z.unknown() })
+      ),
+    })
+  ),
+});
+
+export const roomsOpenResponse = z.object({
+  ...termDataset,
+  classSizes: z.array(z.string()),
+  ...evaluated,
+  rooms: z.array(flatRoom).optional().describe("With `shape=flat`."),
+  buildings: z.array(roomBuilding).optional().describe("Unless `shape=flat`."),
+  page,
+  periodMatch: z
+    .object({
+      days: z.array(z.string()).nullable(),
+      periods: z.array(z.string()).nullable(),
+      match: z.enum(PERIOD_MATCH_MODES),
+    })
+    .optional(),
+  facets: roomFacets.optional(),
+  near: coordinates.optional(),
+  radiusMeters: z.number().nullable().optional(),
+  unlocatedBuildings: z.array(locatedBuildingRef).optional(),
+  ...periodGrid,
+});
+
+export const roomResponse = z.object({
+  building: roomBuilding,
+  room,
+  ...termDataset,
+  ...evaluated,
+  ...periodGrid,
+});
+
+export const roomScheduleResponse = z.object({
+  building: buildingRef,
+  room: z.object({
+    number: z.string(),
+    metadata: roomMetadata.optional(),
+    amenities: z.array(z.string()),
+  }),
+  ...termDataset,
+  schedule: z.object({
+    size: nullableString,
+    days: z.array(
+      z.object({
+        day: z.string(),
+        dayLabel: z.string(),
+        cells: z.array(
+          periodSlot.extend({ status: z.enum(["free", "busy", "outside"]) })
+        ),
+      })
+    ),
+    summary: z.string(),
+  }),
+});
+
+const buildingStatus = {
+  hours: buildingHours.nullable(),
+  isOpenNow: z.boolean().nullable(),
+};
+
+export const buildingsResponse = z.object({
+  ...termDataset,
+  ...evaluated,
+  buildings: z.array(
+    locatedBuildingRef.extend({
+      roomCount: z.number(),
+      openRoomCount: z.number(),
+      ...buildingStatus,
+    })
+  ),
+  near: coordinates.optional(),
+  radiusMeters: z.number().nullable().optional(),
+  unlocatedBuildings: z.array(buildingRef).optional(),
+});
+
+const roomRef = z.object({
+  id: z.string(),
+  number: z.string(),
+  capacity: z.number().nullable(),
+});
+
+export const buildingResponse = z.object({
+  ...termDataset,
+  ...evaluated,
+  building: buildingRef.extend(buildingStatus),
+  roomCount: z.number(),
+  openNowCount: z.number(),
+  openLaterTodayCount: z.number(),
+  largestOpenRoom: roomRef.extend({ openUntil: nullableString }).nullable(),
+  amenities: z.array(z.string()),
+  nextOpening: nextAvailability.extend({ roomId: z.string() }).nullable(),
+  rooms: z.array(
+    roomRef.extend({
+      amenities: z.array(z.string()),
+      metadata: roomMetadata.nullable(),
+      isAvailableNow: z.boolean(),
+      isAvailableLaterToday: z.boolean(),
+      openUntil: nullableString,
+      freeMinutesRemaining: z.number().nullable(),
+      nextAvailable: nextAvailability.nullable(),
+      nextBusyAt: nullableString,
+    })
+  ),
+});
+
+export const searchSlotsResponse = z.object({
+  ...termDataset,
+  query: z.object({
+    durationMinutes: z.number(),
+    dayCode: z.string(),
+    date: z.string(),
+    afterMinutes: z.number(),
+    beforeMinutes: z.number(),
+    ...searchFilters,
+  }),
+  calendar: calendarDay.nullable(),
+  count: z.number(),
+  results: z.array(
+    z.object({
+      building: buildingSummary,
+      room: roomSummary,
+      window: z.object({
+        day: z.string(),
+        date: z.string(),
+        startTime: z.string(),
+        endTime: z.string(),
+        startMinutes: z.number(),
+        endMinutes: z.number(),
+        freeMinutes: z.number(),
+        periods: z.array(z.string()),
+      }),
+    })
+  ),
+});
+
+export const searchRecurringResponse = z.object({
+  ...termDataset,
+  query: z.object({
+    days: z.array(z.string()),
+    periods: z.array(z.string()),
+    ...searchFilters,
+  }),
+  matches: z.array(recurringMatch),
+  nearMisses: z.array(recurringMatch),
+});
+
+export const searchGroupResponse = z.object({
+  ...termDataset,
+  query: z.object({
+    roomCount: z.number(),
+    dayCode: z.string(),
+    date: z.string(),
+    startMinutes: z.number(),
+    endMinutes: z.number(),
+    ...searchFilters,
+  }),
+  calendar: calendarDay.nullable(),
+  count: z.number(),
+  buildings: z.array(
+    z.object({
+      building: buildingSummary,
+      availableRoomCount: z.number(),
+      totalCapacity: z.number(),
+      suggestedRooms: z.array(roomSummary),
+    })
+  ),
+});
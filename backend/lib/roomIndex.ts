@@ -0,0 +1,398 @@
+import {
+  buildFreeBlocks,
+  computeStatus,
+  PERIOD_DEFINITIONS,
+  roomCapacity,
+  type AvailabilityDataset,
+  type BuildingAvailability,
+  type FreeBlock,
+  type PeriodEntry,
+  type RoomAvailability,
+  type SizeAvailability,
+  type StatusOptions,
+  type StatusResult,
+  type TimeContext,
+} from "./availability.js";
+import type { AvailabilityFilters } from "./availabilityFilter.js";
+import {
+  openWindowForDay,
+  resolveBuildingHours,
+  type ResolvedBuildingHours,
+} from "./buildingHours.js";
+import { resolveCalendarDay } from "./calendar.js";
+import { listMatchedPeriods, type PeriodMatch } from "./periodMatch.js";
+import type { FlatRoom, RoomBuildingRef } from "./roomList.js";
+import { toMinutes } from "./time.js";
+
+interface IndexedRecord {
+  size: string;
+  periods: PeriodEntry[];
+  weekly: FreeBlock[];
+  // Slot position of each entry in `periods`.
+  positions: number[];
+  // Bit n is set when slot n of RoomIndex.slots is free.
+  slots: bigint;
+}
+
+interface IndexedRoom {
+  id: string;
+  building: RoomBuildingRef;
+  room: RoomAvailability;
+  capacity: number | null;
+  hours: ResolvedBuildingHours | null;
+  records: Map<string, IndexedRecord>;
+}
+
+interface IndexedBuilding {
+  building: BuildingAvailability;
+  rooms: IndexedRoom[];
+}
+
+interface CachedStatus {
+  status: StatusResult;
+  openUntilMinutes: number | null;
+}
+
+export interface RoomIndex {
+  rooms: IndexedRoom[];
+  roomsById: Map<string, IndexedRoom>;
+  buildingsById: Map<string, IndexedBuilding>;
+  buildingsByCode: Map<string, IndexedBuilding>;
+  // "W-4" → bit position in IndexedRecord.slots.
+  slots: Map<string, number>;
+  options: StatusOptions;
+  // Status per "<room id>|<size>", one map per window between boundaries.
+  statusCache: Map<string, Map<string, CachedStatus>>;
+  // Status boundaries per date, for the most recent BOUNDARY_CACHE_DATES dates.
+  boundaries: Map<string, number[]>;
+}
+
+// Windows kept in the status cache; enough for "now" plus a few `at` lookups.
+const STATUS_CACHE_WINDOWS = 16;
+
+// Dates kept in the boundary cache; today plus a few `day`/`at` lookups.
+const BOUNDARY_CACHE_DATES = 8;
+
+const slotKey = (day: string, period: string) => `${day}-${period}`;
+
+function slotPositions(
+  periods: PeriodEntry[],
+  slots: Map<string, number>
+): number[] {
+  return periods.map((entry) => {
+    const key = slotKey(entry.day, entry.period);
+    let position = slots.get(key);
+    if (position === undefined) {
+      position = slots.size;
+      slots.set(key, position);
+    }
+    return position;
+  });
+}
+
+// Built once per snapshot so request handlers look rooms up and test period
+// filters with bit masks instead of copying the dataset.
+export function createRoomIndex(
+  dataset: AvailabilityDataset,
+  options: StatusOptions
+): RoomIndex {
+  const slots = new Map<string, number>();
+  const rooms: IndexedRoom[] = [];
+  const buildingsById = new Map<string, IndexedBuilding>();
+  const buildingsByCode = new Map<string, IndexedBuilding>();
+
+  dataset.buildings.forEach((building) => {
+    const ref: RoomBuildingRef = {
+      id: building.id,
+      code: building.code,
+      name: building.name,
+      campusId: building.campusId,
+      lat: building.lat,
+      lng: building.lng,
+    };
+    const hours = resolveBuildingHours(options.buildingHours, building);
+    const indexed: IndexedBuilding = {
+      building,
+      rooms: building.rooms.map((room) => ({
+        id: `${building.code ?? building.id}-${room.number}`,
+        building: ref,
+        room,
+        capacity: roomCapacity(room),
+        hours,
+        records: new Map(
+          Object.entries(room.availability).map(([size, record]) => {
+            const periods = record.periods ?? [];
+            const positions = slotPositions(periods, slots);
+            return [
+              size,
+              {
+                size,
+                periods,
+                weekly: buildFreeBlocks(periods),
+                positions,
+                slots: positions.reduce(
+                  (bits, position) => bits | (1n << BigInt(position)),
+                  0n
+                ),
+              },
+            ];
+          })
+        ),
+      })),
+    };
+    rooms.push(...indexed.rooms);
+    buildingsById.set(building.id, indexed);
+    if (building.code) {
+      buildingsByCode.set(building.code.toUpperCase(), indexed);
+    }
+  });
+
+  return {
+    rooms,
+    roomsById: new Map(rooms.map((room) => [room.id, room])),
+    buildingsById,
+    buildingsByCode,
+    slots,
+    options,
+    statusCache: new Map(),
+    boundaries: new Map(),
+  };
+}
+
+interface SlotMask {
+  bits: bigint;
+  // `all` needs every bit; `any` needs at least one.
+  requireAll: boolean;
+  // 1 for each selected slot position, to filter entries without BigInt math.
+  selected: Uint8Array;
+  // Distinguishes cached statuses computed from the masked periods.
+  key: string;
+}
+
+// Null when the match can never succeed: `all` asked for a day/period that
+// no room in the dataset has free.
+function slotMask(index: RoomIndex, match: PeriodMatch): SlotMask | null {
+  const requireAll = match.match === "all" && !!match.days && !!match.periods;
+  const positions: number[] = [];
+  if (requireAll && match.days && match.periods) {
+    for (const day of match.days) {
+      for (const period of match.periods) {
+        const position = index.slots.get(slotKey(day, period));
+        if (position === undefined) return null;
+        positions.push(position);
+      }
+    }
+  } else {
+    index.slots.forEach((position, key) => {
+      const [day, period] = key.split("-");
+      if (match.days && !match.days.includes(day)) return;
+      if (match.periods && !match.periods.has(period)) return;
+      positions.push(position);
+    });
+  }
+
+  const selected = new Uint8Array(index.slots.size);
+  positions.forEach((position) => {
+    selected[position] = 1;
+  });
+  const bits = positions.reduce(
+    (mask, position) => mask | (1n << BigInt(position)),
+    0n
+  );
+  return { bits, requireAll, selected, key: bits.toString(36) };
+}
+
+function matchesMask(slots: bigint, mask: SlotMask): boolean {
+  const overlap = slots & mask.bits;
+  return mask.requireAll ? overlap === mask.bits : overlap !== 0n;
+}
+
+// Every minute at which some room's status can change on `date`: period
+// starts and ends plus each building's opening and closing time. The status
+// stream schedules its pushes from these too.
+export function boundariesFor(
+  index: RoomIndex,
+  context: TimeContext
+): number[] {
+  const cached = index.boundaries.get(context.date);
+  if (cached) return cached;
+
+  const schedule = index.options.schedule ?? PERIOD_DEFINITIONS;
+  const mode = resolveCalendarDay(
+    index.options.calendar ?? null,
+    context.date
+  ).mode;
+  const minutes = new Set<number>();
+  Object.values(schedule).forEach((definition) => {
+    minutes.add(toMinutes(definition.start));
+    minutes.add(toMinutes(definition.end));
+  });
+  new Set(index.rooms.map((room) => room.hours)).forEach((hours) => {
+    const window = hours
+      ? openWindowForDay(hours, context.dayCode, mode)
+      : null;
+    if (window) {
+      minutes.add(window.startMinutes);
+      minutes.add(window.endMinutes);
+    }
+  });
+
+  const sorted = Array.from(minutes).sort((a, b) => a - b);
+  index.boundaries.set(context.date, sorted);
+  if (index.boundaries.size > BOUNDARY_CACHE_DATES) {
+    const oldest = index.boundaries.keys().next().value;
+    if (oldest !== undefined) index.boundaries.delete(oldest);
+  }
+  return sorted;
+}
+
+function statusWindow(
+  index: RoomIndex,
+  context: TimeContext
+): Map<string, CachedStatus> {
+  const position = boundariesFor(index, context).filter(
+    (minutes) => minutes <= context.minutes
+  ).length;
+  const key = `${context.date}@${position}`;
+  let window = index.statusCache.get(key);
+  if (!window) {
+    window = new Map();
+    index.statusCache.set(key, window);
+    if (index.statusCache.size > STATUS_CACHE_WINDOWS) {
+      const oldest = index.statusCache.keys().next().value;
+      if (oldest !== undefined) index.statusCache.delete(oldest);
+    }
+  }
+  return window;
+}
+
+// Statuses only change at a boundary, so one computation serves the whole
+// window; only the minutes left in the current block are recounted.
+// With a period match the status only considers the matched periods, as the
+// copy path did, so those results are cached under the mask's key.
+function statusFor(
+  index: RoomIndex,
+  room: IndexedRoom,
+  record: IndexedRecord,
+  masked: { periods: PeriodEntry[]; key: string } | null,
+  context: TimeContext,
+  window: Map<string, CachedStatus>
+): StatusResult {
+  const key = `${room.id}|${record.size}|${masked?.key ?? ""}`;
+  let cached = window.get(key);
+  if (!cached) {
+    const weekly = masked ? buildFreeBlocks(masked.periods) : record.weekly;
+    const status = computeStatus(weekly, context, {
+      calendar: index.options.calendar ?? null,
+      schedule: index.options.schedule ?? PERIOD_DEFINITIONS,
+      hours: room.hours,
+    });
+    cached = {
+      status,
+      openUntilMinutes:
+        status.freeMinutesRemaining === null
+          ? null
+          : context.minutes + status.freeMinutesRemaining,
+    };
+    window.set(key, cached);
+  }
+  return {
+    ...cached.status,
+    freeMinutesRemaining:
+      cached.openUntilMinutes === null
+        ? null
+        : cached.openUntilMinutes - context.minutes,
+  };
+}
+
+function scopeRooms(
+  index: RoomIndex,
+  filters: AvailabilityFilters
+): IndexedRoom[] {
+  const byId = filters.buildingId
+    ? index.buildingsById.get(filters.buildingId)
+    : null;
+  const byCode = filters.buildingCode
+    ? index.buildingsByCode.get(filters.buildingCode.toUpperCase())
+    : null;
+  if (filters.buildingId && filters.buildingCode) {
+    return byId && byId === byCode ? byId.rooms : [];
+  }
+  if (filters.buildingId) return byId?.rooms ?? [];
+  if (filters.buildingCode) return byCode?.rooms ?? [];
+  return index.rooms;
+}
+
+// The indexed equivalent of filterAvailability → applyRealtimeStatus →
+// stripPeriods → flattenRooms: the same rooms in the same order, with periods
+// only when a period match was requested. Nothing in the snapshot is copied
+// or mutated.
+export function queryRooms(
+  index: RoomIndex,
+  filters: AvailabilityFilters,
+  periodMatch: PeriodMatch | null,
+  context: TimeContext | null
+): FlatRoom[] {
+  const size = filters.size?.toUpperCase() ?? null;
+  const roomNumber = filters.roomNumber?.toUpperCase() ?? null;
+  const amenities = filters.amenities ?? [];
+  const hasCapacityFilter = Boolean(filters.minCapacity || filters.maxCapacity);
+  const mask = periodMatch ? slotMask(index, periodMatch) : null;
+  if (periodMatch && !mask) return [];
+  const window = context ? statusWindow(index, context) : null;
+
+  return scopeRooms(index, filters).flatMap((entry): FlatRoom[] => {
+    const { room, capacity } = entry;
+    if (roomNumber && room.number.toUpperCase() !== roomNumber) return [];
+    if (!amenities.every((slug) => room.amenities.includes(slug))) return [];
+    if (hasCapacityFilter) {
+      if (capacity === null) return [];
+      if (filters.minCapacity && capacity < filters.minCapacity) return [];
+      if (filters.maxCapacity && capacity > filters.maxCapacity) return [];
+    }
+
+    const records = size
+      ? [entry.records.get(size)].filter(
+          (record): record is IndexedRecord => record !== undefined
+        )
+      : Array.from(entry.records.values());
+    const availability: Record<string, SizeAvailability> = {};
+    records.forEach((record) => {
+      if (mask && !matchesMask(record.slots, mask)) return;
+      const periods = mask
+        ? record.periods.filter(
+            (_, i) => mask.selected[record.positions[i]] === 1
+          )
+        : null;
+      availability[record.size] = {
+        ...(periods ? { periods } : {}),
+        ...(context && window
+          ? statusFor(
+              index,
+              entry,
+              record,
+              periods && mask ? { periods, key: mask.key } : null,
+              context,
+              window
+            )
+          : {}),
+      };
+    });
+    if (Object.keys(availability).length === 0) return [];
+
+    return [
+      {
+        id: entry.id,
+        building: entry.building,
+        number: room.number,
+        capacity,
+        amenities: room.amenities,
+        metadata: room.metadata,
+        availability,
+        ...(periodMatch
+          ? { matchedPeriods: listMatchedPeriods(availability) }
+          : {}),
+      },
+    ];
+  });
+}
@@ -0,0 +1,284 @@
+import {
+  roomCapacity,
+  type AvailabilityDataset,
+  type RoomAvailability,
+  type SizeAvailability,
+} from "./availability.js";
+import { haversineMeters, rankByDistance, type Coordinates } from "./geo.js";
+import type { MatchedPeriod } from "./periodMatch.js";
+
+export const ROOM_SORTS = [
+  "openUntil",
+  "capacity",
+  "distance",
+  "name",
+] as const;
+
+export type RoomSort = (typeof ROOM_SORTS)[number];
+
+// `metadata` selects the whole object; `metadata.<key>` picks single keys.
+export const ROOM_FIELDS = [
+  "availability",
+  "metadata",
+  "metadata.capacity",
+  "metadata.photo",
+  "metadata.gallery",
+  "metadata.featureFlags",
+  "metadata.detailUrl",
+] as const;
+
+export type RoomField = (typeof ROOM_FIELDS)[number];
+
+export interface RoomBuildingRef {
+  id: string;
+  code: string | null;
+  name: string;
+  campusId: string | null;
+  lat: number | null;
+  lng: number | null;
+  distanceMeters?: number;
+  walkingMinutes?: number;
+}
+
+export interface FlatRoom {
+  id: string;
+  building: RoomBuildingRef;
+  number: string;
+  capacity: number | null;
+  amenities: string[];
+  // Free day/period combinations that satisfied `days`/`periods`/`match`.
+  matchedPeriods?: MatchedPeriod[];
+  metadata?: Partial<NonNullable<RoomAvailability["metadata"]>>;
+  availability?: Record<string, SizeAvailability>;
+}
+
+export interface RoomCursor {
+  offset: number;
+  sort: RoomSort | null;
+}
+
+export interface RoomPageQuery {
+  sort?: RoomSort | null;
+  origin?: Coordinates | null;
+  limit?: number | null;
+  cursor?: RoomCursor | null;
+}
+
+export interface RoomPage {
+  rooms: FlatRoom[];
+  page: {
+    total: number;
+    limit: number | null;
+    nextCursor: string | null;
+  };
+}
+
+export function encodeRoomCursor(cursor: RoomCursor): string {
+  return Buffer.from(
+    JSON.stringify({ o: cursor.offset, s: cursor.sort })
+  ).toString("base64url");
+}
+
+export function decodeRoomCursor(value: string): RoomCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, "base64url").toString());
+    const offset = decoded?.o;
+    const sort = decoded?.s ?? null;
+    if (!Number.isInteger(offset) || offset < 0) return null;
+    if (sort !== null && !(ROOM_SORTS as readonly string[]).includes(sort)) {
+      return null;
+    }
+    return { offset, sort };
+  } catch {
+    return null;
+  }
+}
+
+export function flattenRooms(dataset: AvailabilityDataset): FlatRoom[] {
+  return dataset.buildings.flatMap((building) => {
+    const ref: RoomBuildingRef = {
+      id: building.id,
+      code: building.code,
+      name: building.name,
+      campusId: building.campusId,
+      lat: building.lat,
+      lng: building.lng,
+    };
+    return building.rooms.map((room) => ({
+      id: `${building.code ?? building.id}-${room.number}`,
+      building: ref,
+      number: room.number,
+      capacity: roomCapacity(room),
+      amenities: room.amenities,
+      metadata: room.metadata,
+      availability: room.availability,
+    }));
+  });
+}
+
+// Longest remaining free block across the room's size buckets; null when the
+// room is busy now.
+function freeMinutesNow(room: FlatRoom): number | null {
+  const current = Object.values(room.availability ?? {})
+    .filter((record) => record.isAvailableNow)
+    .map((record) => record.freeMinutesRemaining ?? 0);
+  return current.length > 0 ? Math.max(...current) : null;
+}
+
+export function roomDistanceMeters(
+  room: FlatRoom,
+  origin: Coordinates | null | undefined
+): number | null {
+  const { lat, lng, distanceMeters } = room.building;
+  if (distanceMeters !== undefined) return distanceMeters;
+  if (!origin || lat === null || lng === null) return null;
+  return haversineMeters(origin, { lat, lng });
+}
+
+export interface LocatedRooms {
+  rooms: FlatRoom[];
+  unlocatedBuildings: RoomBuildingRef[];
+}
+
+// Annotates each room's building with its distance from `origin`. With a
+// radius, rooms outside it are dropped; rooms in buildings without coordinates
+// are kept only when there is no radius, and their buildings are reported.
+export function locateRooms(
+  rooms: FlatRoom[],
+  origin: Coordinates,
+  radiusMeters?: number | null
+): LocatedRooms {
+  const buildings = new Map(
+    rooms.map((room) => [room.building.id, room.building])
+  );
+  const { located, unlocated } = rankByDistance(
+    Array.from(buildings.values()),
+    origin,
+    radiusMeters
+  );
+  const locatedById = new Map(
+    located.map((building) => [building.id, building])
+  );
+  const unlocatedIds = new Set(unlocated.map((building) => building.id));
+
+  return {
+    rooms: rooms.flatMap((room) => {
+      const building = locatedById.get(room.building.id);
+      if (building) return [{ ...room, building }];
+      return !radiusMeters && unlocatedIds.has(room.building.id) ? [room] : [];
+    }),
+    unlocatedBuildings: unlocated,
+  };
+}
+
+const byName = (a: FlatRoom, b: FlatRoom) =>
+  a.building.name.localeCompare(b.building.name) ||
+  a.number.localeCompare(b.number, undefined, { numeric: true });
+
+// Each sort has one natural direction: most free time, largest capacity and
+// nearest first; rooms missing the sort value go last.
+export function sortRooms(
+  rooms: FlatRoom[],
+  sort: RoomSort,
+  origin?: Coordinates | null
+): FlatRoom[] {
+  const nullsLast = (
+    a: number | null,
+    b: number | null,
+    compare: (x: number, y: number) => number
+  ) => {
+    if (a === null && b === null) return 0;
+    if (a === null) return 1;
+    if (b === null) return -1;
+    return compare(a, b);
+  };
+
+  const keyed = rooms.map((room) => ({
+    room,
+    key:
+      sort === "openUntil"
+        ? freeMinutesNow(room)
+        : sort === "capacity"
+        ? room.capacity
+        : sort === "distance"
+        ? roomDistanceMeters(room, origin)
+        : null,
+  }));
+
+  return keyed
+    .sort(
+      (a, b) =>
+        nullsLast(a.key, b.key, (x, y) =>
+          sort === "distance" ? x - y : y - x
+        ) || byName(a.room, b.room)
+    )
+    .map(({ room }) => room);
+}
+
+export function paginateRooms(
+  rooms: FlatRoom[],
+  query: RoomPageQuery
+): RoomPage {
+  const sort = query.sort ?? null;
+  const sorted = sort ? sortRooms(rooms, sort, query.origin) : rooms;
+  const offset = query.cursor?.offset ?? 0;
+  const limit = query.limit ?? null;
+  const end = limit === null ? sorted.length : offset + limit;
+
+  return {
+    rooms: sorted.slice(offset, end),
+    page: {
+      total: sorted.length,
+      limit,
+      nextCursor:
+        end < sorted.length ? encodeRoomCursor({ offset: end, sort }) : null,
+    },
+  };
+}
+
+export function selectRoomFields(
+  room: FlatRoom,
+  fields: RoomField[] | null | undefined
+): FlatRoom {
+  if (!fields) return room;
+  const { metadata, availability, ...base } = room;
+  const selected: FlatRoom = { ...base };
+
+  if (fields.includes("availability") && availability) {
+    selected.availability = availability;
+  }
+  if (fields.includes("metadata") && metadata) {
+    selected.metadata = metadata;
+  } else if (metadata) {
+    const keys = fields
+      .filter((field) => field.startsWith("metadata."))
+      .map((field) => field.slice("metadata.".length) as keyof typeof metadata);
+    if (keys.length > 0) {
+      selected.metadata = Object.fromEntries(
+        keys.map((key) => [key, metadata[key]])
+      );
+    }
+  }
+  return selected;
+}
+
+export type NestedRoom = Omit<FlatRoom, "id" | "building" | "capacity">;
+
+export interface NestedBuilding extends RoomBuildingRef {
+  rooms: NestedRoom[];
+}
+
+// Regroups a page of flat rooms into the building-nested response shape,
+// keeping buildings in the order their first room appears.
+export function nestRooms(rooms: FlatRoom[]): NestedBuilding[] {
+  const buildings = new Map<string, NestedBuilding>();
+  rooms.forEach(({ id: _id, building, capacity: _capacity, ...room }) => {
+    let entry = buildings.get(building.id);
+    if (!entry) {
+      entry = { ...building, rooms: [] };
+      buildings.set(building.id, entry);
+    }
+    entry.rooms.push(room);
+  });
+  return Array.from(buildings.values());
+}
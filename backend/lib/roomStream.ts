@@ -0,0 +1,94 @@
+import type {
+  NextAvailability,
+  SizeAvailability,
+  TimeContext,
+} from "./availability.js";
+import type { FlatRoom } from "./roomList.js";
+
+export interface RoomStatus {
+  id: string;
+  buildingId: string;
+  number: string;
+  isAvailableNow: boolean;
+  openUntil: string | null;
+  freeMinutesRemaining: number | null;
+  nextAvailable: NextAvailability | null;
+  nextBusyAt: string | null;
+}
+
+export interface RoomStatusChanges {
+  changed: RoomStatus[];
+  removed: string[];
+}
+
+// Size buckets share the room's periods, so any bucket open now describes the
+// room; the one with the longest remaining block wins.
+export function pickStatusRecord(
+  availability: Record<string, SizeAvailability>
+): SizeAvailability | null {
+  const records = Object.values(availability);
+  const open = records
+    .filter((record) => record.isAvailableNow)
+    .sort(
+      (a, b) => (b.freeMinutesRemaining ?? 0) - (a.freeMinutesRemaining ?? 0)
+    );
+  return open[0] ?? records[0] ?? null;
+}
+
+// Expects rooms from queryRooms, which already carry their live status.
+export function summarizeRoomStatuses(
+  rooms: FlatRoom[]
+): Map<string, RoomStatus> {
+  const statuses = new Map<string, RoomStatus>();
+  rooms.forEach((room) => {
+    const record = pickStatusRecord(room.availability ?? {});
+    statuses.set(room.id, {
+      id: room.id,
+      buildingId: room.building.id,
+      number: room.number,
+      isAvailableNow: record?.isAvailableNow ?? false,
+      openUntil: record?.openUntil ?? null,
+      freeMinutesRemaining: record?.freeMinutesRemaining ?? null,
+      nextAvailable: record?.nextAvailable ?? null,
+      nextBusyAt: record?.nextBusyAt ?? null,
+    });
+  });
+  return statuses;
+}
+
+// `freeMinutesRemaining` counts down on its own, so it is left out: a room
+// only changes when it opens or closes, or its current or next block moves.
+function sameStatus(a: RoomStatus, b: RoomStatus): boolean {
+  return (
+    a.isAvailableNow === b.isAvailableNow &&
+    a.openUntil === b.openUntil &&
+    a.nextBusyAt === b.nextBusyAt &&
+    JSON.stringify(a.nextAvailable) === JSON.stringify(b.nextAvailable)
+  );
+}
+
+export function diffRoomStatuses(
+  previous: Map<string, RoomStatus>,
+  next: Map<string, RoomStatus>
+): RoomStatusChanges {
+  const changed = Array.from(next.values()).filter((status) => {
+    const before = previous.get(status.id);
+    return !before || !sameStatus(before, status);
+  });
+  const removed = Array.from(previous.keys()).filter((id) => !next.has(id));
+  return { changed, removed };
+}
+
+// Milliseconds until the next of `boundaries` (minutes since midnight, from
+// boundariesFor in roomIndex.ts), or midnight when the day's last one has
+// passed, measured from `now` in Eastern time.
+export function msUntilNextBoundary(
+  boundaries: number[],
+  context: TimeContext,
+  now: Date = new Date()
+): number {
+  const upcoming = boundaries.filter((minutes) => minutes > context.minutes);
+  const next = upcoming.length > 0 ? Math.min(...upcoming) : 24 * 60;
+  const elapsedInMinute = now.getSeconds() * 1000 + now.getMilliseconds();
+  return (next - context.minutes) * 60 * 1000 - elapsedInMinute;
+}
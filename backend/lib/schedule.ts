@@ -0,0 +1,135 @@
+import {
+  DAY_LABELS,
+  DAY_SEQUENCE,
+  describePeriodSchedule,
+  mergeRoomPeriods,
+  PERIOD_DEFINITIONS,
+  type BuildingAvailability,
+  type RoomAvailability,
+  type StatusOptions,
+} from "./availability.js";
+import { openWindowForDay, resolveBuildingHours } from "./buildingHours.js";
+import { toMinutes } from "./time.js";
+
+export type ScheduleCellStatus = "free" | "busy" | "outside";
+
+export interface ScheduleCell {
+  period: string;
+  startTime: string;
+  endTime: string;
+  status: ScheduleCellStatus;
+}
+
+export interface ScheduleDay {
+  day: string;
+  dayLabel: string;
+  cells: ScheduleCell[];
+}
+
+export interface RoomSchedule {
+  size: string | null;
+  days: ScheduleDay[];
+  summary: string;
+}
+
+// Registrar-style single letters, so Thursday doesn't read as "T" + "H".
+const DAY_LETTERS: Record<string, string> = {
+  M: "M",
+  T: "T",
+  W: "W",
+  TH: "R",
+  F: "F",
+  S: "S",
+  SU: "U",
+};
+
+function describeRuns(periods: string[], busy: Set<string>): string {
+  const runs: string[] = [];
+  let runStart: string | null = null;
+  let runEnd: string | null = null;
+
+  const flush = () => {
+    if (runStart === null || runEnd === null) return;
+    runs.push(runStart === runEnd ? runStart : `${runStart}–${runEnd}`);
+    runStart = null;
+    runEnd = null;
+  };
+
+  periods.forEach((period) => {
+    if (busy.has(period)) {
+      runStart = runStart ?? period;
+      runEnd = period;
+    } else {
+      flush();
+    }
+  });
+  flush();
+
+  return runs.join(", ");
+}
+
+// Groups days with identical busy periods, e.g. "busy MWF 3–5; TR 2, 7–8".
+function summarizeBusy(days: ScheduleDay[]): string {
+  const groups = new Map<string, string[]>();
+  days.forEach((day) => {
+    const periods = day.cells.map((cell) => cell.period);
+    const busy = new Set(
+      day.cells
+        .filter((cell) => cell.status === "busy")
+        .map((cell) => cell.period)
+    );
+    const runs = describeRuns(periods, busy);
+    if (!runs) return;
+    groups.set(runs, [...(groups.get(runs) ?? []), day.day]);
+  });
+
+  if (groups.size === 0) return "free all week";
+  return `busy ${Array.from(groups.entries())
+    .map(
+      ([runs, dayCodes]) =>
+        `${dayCodes.map((day) => DAY_LETTERS[day] ?? day).join("")} ${runs}`
+    )
+    .join("; ")}`;
+}
+
+// Busy cells are the complement of the STARS open periods for the room.
+export function buildRoomSchedule(
+  building: BuildingAvailability,
+  room: RoomAvailability,
+  size: string | null,
+  options: StatusOptions = {}
+): RoomSchedule {
+  const schedule = options.schedule ?? PERIOD_DEFINITIONS;
+  const hours = resolveBuildingHours(options.buildingHours, building);
+  const periods = size
+    ? room.availability[size]?.periods ?? []
+    : mergeRoomPeriods(room);
+  const free = new Set(periods.map((entry) => `${entry.day}-${entry.period}`));
+  const slots = describePeriodSchedule(schedule);
+
+  const days: ScheduleDay[] = DAY_SEQUENCE.map((day) => {
+    const window = hours ? openWindowForDay(hours, day, "classes") : null;
+    return {
+      day,
+      dayLabel: DAY_LABELS[day] ?? day,
+      cells: slots.map((slot) => {
+        const definition = schedule[slot.period];
+        const isOutside =
+          hours !== null &&
+          (window === null ||
+            toMinutes(definition.start) < window.startMinutes ||
+            toMinutes(definition.end) > window.endMinutes);
+        return {
+          ...slot,
+          status: isOutside
+            ? "outside"
+            : free.has(`${day}-${slot.period}`)
+            ? "free"
+            : "busy",
+        };
+      }),
+    };
+  });
+
+  return { size, days, summary: summarizeBusy(days) };
+}
@@ -0,0 +1,405 @@
+import {
+  buildFreeBlocks,
+  describePeriodSchedule,
+  freeBlocksForDate,
+  mergeRoomPeriods,
+  parseDayCode,
+  PERIOD_DEFINITIONS,
+  roomCapacity,
+  type AvailabilityDataset,
+  type BuildingAvailability,
+  type RoomAvailability,
+  type StatusOptions,
+} from "./availability.js";
+import {
+  openWindowForDay,
+  resolveBuildingHours,
+  type ResolvedBuildingHours,
+} from "./buildingHours.js";
+import type { PeriodSchedule } from "./periodSchedules.js";
+import { formatMinutes12, toMinutes } from "./time.js";
+
+export interface RoomFilters {
+  minCapacity?: number | null;
+  amenities?: string[];
+  buildingCode?: string | null;
+}
+
+export interface SlotSearchQuery extends RoomFilters {
+  durationMinutes: number;
+  dayCode: string;
+  date: string;
+  afterMinutes: number;
+  beforeMinutes: number;
+}
+
+export interface RecurringSearchQuery extends RoomFilters {
+  days: string[];
+  periods: string[];
+}
+
+export interface BuildingSummary {
+  id: string;
+  code: string | null;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface RoomSummary {
+  id: string;
+  number: string;
+  capacity: number | null;
+  amenities: string[];
+  detailUrl: string | null;
+}
+
+export interface SlotWindow {
+  day: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  startMinutes: number;
+  endMinutes: number;
+  freeMinutes: number;
+  periods: string[];
+}
+
+export interface SlotResult {
+  building: BuildingSummary;
+  room: RoomSummary;
+  window: SlotWindow;
+}
+
+export interface RecurringMatch {
+  building: BuildingSummary;
+  room: RoomSummary;
+  freeDays: string[];
+  missedDays: string[];
+}
+
+export interface RecurringSearchResult {
+  matches: RecurringMatch[];
+  nearMisses: RecurringMatch[];
+}
+
+interface Candidate {
+  building: BuildingAvailability;
+  room: RoomAvailability;
+  hours: ResolvedBuildingHours | null;
+  buildingSummary: BuildingSummary;
+  roomSummary: RoomSummary;
+}
+
+// Accepts plain minutes ("90") or hour/minute units ("2h", "1h30m", "1.5h").
+export function parseDuration(value: string): number | null {
+  const trimmed = value.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) {
+    const minutes = Number(trimmed);
+    return minutes > 0 ? minutes : null;
+  }
+  const match = trimmed.match(
+    /^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/
+  );
+  if (!match || (!match[1] && !match[2])) return null;
+  const minutes =
+    Math.round(Number(match[1] ?? 0) * 60) + Number(match[2] ?? 0);
+  return minutes > 0 ? minutes : null;
+}
+
+// Accepts registrar shorthand ("MWF", "TR", "MTWRF") or a list ("M,W,F").
+export function parseDayPattern(value: string): string[] {
+  const trimmed = value.trim().toUpperCase();
+  const tokens: string[] = [];
+
+  if (/[\s,]/.test(trimmed)) {
+    trimmed
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .forEach((token) => {
+        const code = token === "R" ? "TH" : parseDayCode(token);
+        if (!code) throw new RangeError(`Unknown day "${token}".`);
+        tokens.push(code);
+      });
+  } else {
+    let index = 0;
+    while (index < trimmed.length) {
+      const pair = trimmed.slice(index, index + 2);
+      if (pair === "TH" || pair === "SU") {
+        tokens.push(pair);
+        index += 2;
+        continue;
+      }
+      const letter = trimmed[index];
+      const code =
+        letter === "R" ? "TH" : letter === "U" ? "SU" : parseDayCode(letter);
+      if (!code) throw new RangeError(`Unknown day "${letter}" in "${value}".`);
+      tokens.push(code);
+      index += 1;
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new RangeError("At least one day is required.");
+  }
+  return Array.from(new Set(tokens));
+}
+
+// Accepts a single period ("4"), a range ("5-6", "10-E1") or a list ("4,5").
+export function parsePeriodRange(
+  value: string,
+  schedule: PeriodSchedule
+): string[] {
+  const ordered = describePeriodSchedule(schedule).map((slot) => slot.period);
+  const indexOf = (period: string) => {
+    const index = ordered.indexOf(period.trim().toUpperCase());
+    if (index < 0) throw new RangeError(`Unknown period "${period.trim()}".`);
+    return index;
+  };
+
+  const periods = new Set<string>();
+  value
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .forEach((part) => {
+      const [from, to] = part.split(/\s*[-–]\s*/);
+      const start = indexOf(from);
+      const end = to ? indexOf(to) : start;
+      if (end < start) {
+        throw new RangeError(`Period range "${part}" runs backwards.`);
+      }
+      ordered.slice(start, end + 1).forEach((period) => periods.add(period));
+    });
+
+  if (periods.size === 0) {
+    throw new RangeError("At least one period is required.");
+  }
+  return ordered.filter((period) => periods.has(period));
+}
+
+function listCandidates(
+  dataset: AvailabilityDataset,
+  filters: RoomFilters,
+  options: StatusOptions
+): Candidate[] {
+  const buildingCode = filters.buildingCode?.toUpperCase() ?? null;
+  const amenities = filters.amenities ?? [];
+  const candidates: Candidate[] = [];
+
+  dataset.buildings.forEach((building) => {
+    if (buildingCode && building.code?.toUpperCase() !== buildingCode) return;
+    const hours = resolveBuildingHours(options.buildingHours, building);
+
+    building.rooms.forEach((room) => {
+      const capacity = roomCapacity(room);
+      if (filters.minCapacity && (capacity ?? 0) < filters.minCapacity) return;
+
+      if (!amenities.every((slug) => room.amenities.includes(slug))) return;
+
+      candidates.push({
+        building,
+        room,
+        hours,
+        buildingSummary: {
+          id: building.id,
+          code: building.code,
+          name: building.name,
+          lat: building.lat,
+          lng: building.lng,
+        },
+        roomSummary: {
+          id: `${building.code ?? building.id}-${room.number}`,
+          number: room.number,
+          capacity,
+          amenities: room.amenities,
+          detailUrl: room.metadata?.detailUrl ?? null,
+        },
+      });
+    });
+  });
+
+  return candidates;
+}
+
+export function findFreeSlots(
+  dataset: AvailabilityDataset,
+  query: SlotSearchQuery,
+  options: StatusOptions = {}
+): SlotResult[] {
+  const schedule = options.schedule ?? PERIOD_DEFINITIONS;
+  const results: SlotResult[] = [];
+
+  listCandidates(dataset, query, options).forEach((candidate) => {
+    const weekly = buildFreeBlocks(mergeRoomPeriods(candidate.room));
+    const blocks = freeBlocksForDate(weekly, query.dayCode, query.date, {
+      calendar: options.calendar ?? null,
+      schedule,
+      hours: candidate.hours,
+    });
+
+    blocks.forEach((block) => {
+      const startMinutes = Math.max(block.startMinutes, query.afterMinutes);
+      const endMinutes = Math.min(block.endMinutes, query.beforeMinutes);
+      if (endMinutes - startMinutes < query.durationMinutes) return;
+
+      results.push({
+        building: candidate.buildingSummary,
+        room: candidate.roomSummary,
+        window: {
+          day: query.dayCode,
+          date: query.date,
+          startTime: formatMinutes12(startMinutes),
+          endTime: formatMinutes12(endMinutes),
+          startMinutes,
+          endMinutes,
+          freeMinutes: endMinutes - startMinutes,
+          periods: block.periods.filter((period) => {
+            const definition = schedule[period];
+            return (
+              definition &&
+              toMinutes(definition.start) < endMinutes &&
+              toMinutes(definition.end) > startMinutes
+            );
+          }),
+        },
+      });
+    });
+  });
+
+  return results.sort(
+    (a, b) =>
+      a.window.startMinutes - b.window.startMinutes ||
+      b.window.freeMinutes - a.window.freeMinutes ||
+      a.room.id.localeCompare(b.room.id)
+  );
+}
+
+// Rooms free for every requested period on every requested weekday of the
+// regular class week. Rooms that miss exactly one day are near misses.
+export function findRecurringSlots(
+  dataset: AvailabilityDataset,
+  query: RecurringSearchQuery,
+  options: StatusOptions = {}
+): RecurringSearchResult {
+  const schedule = options.schedule ?? PERIOD_DEFINITIONS;
+  const matches: RecurringMatch[] = [];
+  const nearMisses: RecurringMatch[] = [];
+
+  listCandidates(dataset, query, options).forEach((candidate) => {
+    const free = new Set(
+      mergeRoomPeriods(candidate.room).map(
+        (entry) => `${entry.day}-${entry.period}`
+      )
+    );
+
+    const freeDays: string[] = [];
+    const missedDays: string[] = [];
+    query.days.forEach((day) => {
+      const window = candidate.hours
+        ? openWindowForDay(candidate.hours, day, "classes")
+        : null;
+      const isFree = query.periods.every((period) => {
+        if (!free.has(`${day}-${period}`)) return false;
+        if (!candidate.hours) return true;
+        const definition = schedule[period];
+        return (
+          window !== null &&
+          definition !== undefined &&
+          toMinutes(definition.start) >= window.startMinutes &&
+          toMinutes(definition.end) <= window.endMinutes
+        );
+      });
+      (isFree ? freeDays : missedDays).push(day);
+    });
+
+    const result = {
+      building: candidate.buildingSummary,
+      room: candidate.roomSummary,
+      freeDays,
+      missedDays,
+    };
+    if (missedDays.length === 0) {
+      matches.push(result);
+    } else if (missedDays.length === 1 && query.days.length > 1) {
+      nearMisses.push(result);
+    }
+  });
+
+  const byRoom = (a: RecurringMatch, b: RecurringMatch) =>
+    a.room.id.localeCompare(b.room.id);
+  return {
+    matches: matches.sort(byRoom),
+    nearMisses: nearMisses.sort(byRoom),
+  };
+}
+
+export interface GroupSearchQuery extends RoomFilters {
+  roomCount: number;
+  dayCode: string;
+  date: string;
+  startMinutes: number;
+  endMinutes: number;
+}
+
+export interface GroupBookingOption {
+  building: BuildingSummary;
+  availableRoomCount: number;
+  totalCapacity: number;
+  suggestedRooms: RoomSummary[];
+}
+
+// Buildings with at least `roomCount` rooms free for the whole window. The
+// suggestion is the largest rooms, and buildings rank by its total capacity.
+export function findGroupBookings(
+  dataset: AvailabilityDataset,
+  query: GroupSearchQuery,
+  options: StatusOptions = {}
+): GroupBookingOption[] {
+  const slots = findFreeSlots(
+    dataset,
+    {
+      ...query,
+      durationMinutes: query.endMinutes - query.startMinutes,
+      afterMinutes: query.startMinutes,
+      beforeMinutes: query.endMinutes,
+    },
+    options
+  );
+
+  const byBuilding = new Map<
+    string,
+    { building: BuildingSummary; rooms: Map<string, RoomSummary> }
+  >();
+  slots.forEach((slot) => {
+    let group = byBuilding.get(slot.building.id);
+    if (!group) {
+      group = { building: slot.building, rooms: new Map() };
+      byBuilding.set(slot.building.id, group);
+    }
+    group.rooms.set(slot.room.id, slot.room);
+  });
+
+  const candidates: GroupBookingOption[] = [];
+  byBuilding.forEach(({ building, rooms }) => {
+    if (rooms.size < query.roomCount) return;
+    const suggestedRooms = Array.from(rooms.values())
+      .sort((a, b) => (b.capacity ?? 0) - (a.capacity ?? 0))
+      .slice(0, query.roomCount);
+    candidates.push({
+      building,
+      availableRoomCount: rooms.size,
+      totalCapacity: suggestedRooms.reduce(
+        (sum, room) => sum + (room.capacity ?? 0),
+        0
+      ),
+      suggestedRooms,
+    });
+  });
+
+  return candidates.sort(
+    (a, b) =>
+      b.totalCapacity - a.totalCapacity ||
+      b.availableRoomCount - a.availableRoomCount
+  );
+}
@@ -0,0 +1,184 @@
+import {
+  mergeRoomPeriods,
+  type AvailabilityDataset,
+  type BuildingAvailability,
+  type RoomAvailability,
+} from "./availability.js";
+
+export interface DiffBuildingRef {
+  id: string;
+  code: string | null;
+  name: string;
+}
+
+export interface DiffRoomRef {
+  id: string;
+  building: DiffBuildingRef;
+  number: string;
+}
+
+export interface FreePeriodRef {
+  day: string;
+  period: string;
+}
+
+export interface RoomPeriodChange extends DiffRoomRef {
+  added: FreePeriodRef[];
+  removed: FreePeriodRef[];
+}
+
+export interface MetadataFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface RoomMetadataChange extends DiffRoomRef {
+  changes: MetadataFieldChange[];
+}
+
+export interface DatasetDiff {
+  summary: {
+    buildingsAdded: number;
+    buildingsRemoved: number;
+    roomsAdded: number;
+    roomsRemoved: number;
+    roomsWithPeriodChanges: number;
+    periodsAdded: number;
+    periodsRemoved: number;
+    roomsWithMetadataChanges: number;
+  };
+  buildings: { added: DiffBuildingRef[]; removed: DiffBuildingRef[] };
+  rooms: { added: DiffRoomRef[]; removed: DiffRoomRef[] };
+  periods: RoomPeriodChange[];
+  metadata: RoomMetadataChange[];
+}
+
+interface IndexedRoom {
+  ref: DiffRoomRef;
+  room: RoomAvailability;
+}
+
+function buildingRef(building: BuildingAvailability): DiffBuildingRef {
+  return { id: building.id, code: building.code, name: building.name };
+}
+
+// Rooms are matched on building ID and room number, so a renamed building
+// still lines up with its previous version.
+function indexRooms(dataset: AvailabilityDataset): Map<string, IndexedRoom> {
+  const rooms = new Map<string, IndexedRoom>();
+  dataset.buildings.forEach((building) => {
+    const ref = buildingRef(building);
+    building.rooms.forEach((room) => {
+      rooms.set(`${building.id}/${room.number}`, {
+        ref: {
+          id: `${building.code ?? building.id}-${room.number}`,
+          building: ref,
+          number: room.number,
+        },
+        room,
+      });
+    });
+  });
+  return rooms;
+}
+
+function freePeriodKeys(room: RoomAvailability): Map<string, FreePeriodRef> {
+  return new Map(
+    mergeRoomPeriods(room).map(({ day, period }) => [
+      `${day} ${period}`,
+      { day, period },
+    ])
+  );
+}
+
+function missingFrom<T>(source: Map<string, T>, other: Map<string, T>): T[] {
+  return Array.from(source.entries())
+    .filter(([key]) => !other.has(key))
+    .map(([, value]) => value);
+}
+
+function diffMetadata(
+  before: RoomAvailability["metadata"],
+  after: RoomAvailability["metadata"]
+): MetadataFieldChange[] {
+  const fields = new Set([
+    ...Object.keys(before ?? {}),
+    ...Object.keys(after ?? {}),
+  ]);
+  return Array.from(fields)
+    .sort()
+    .flatMap((field) => {
+      const from = (before as Record<string, unknown> | undefined)?.[field];
+      const to = (after as Record<string, unknown> | undefined)?.[field];
+      return JSON.stringify(from) === JSON.stringify(to)
+        ? []
+        : [{ field, from: from ?? null, to: to ?? null }];
+    });
+}
+
+// What changed between two versions of a term: buildings and rooms that
+// appeared or disappeared, free periods gained or lost (merged across size
+// buckets), and room metadata edits.
+export function diffDatasets(
+  from: AvailabilityDataset,
+  to: AvailabilityDataset
+): DatasetDiff {
+  const fromBuildings = new Map(
+    from.buildings.map((building) => [building.id, buildingRef(building)])
+  );
+  const toBuildings = new Map(
+    to.buildings.map((building) => [building.id, buildingRef(building)])
+  );
+  const fromRooms = indexRooms(from);
+  const toRooms = indexRooms(to);
+
+  const periods: RoomPeriodChange[] = [];
+  const metadata: RoomMetadataChange[] = [];
+  toRooms.forEach((after, key) => {
+    const before = fromRooms.get(key);
+    if (!before) return;
+
+    const beforePeriods = freePeriodKeys(before.room);
+    const afterPeriods = freePeriodKeys(after.room);
+    const added = missingFrom(afterPeriods, beforePeriods);
+    const removed = missingFrom(beforePeriods, afterPeriods);
+    if (added.length > 0 || removed.length > 0) {
+      periods.push({ ...after.ref, added, removed });
+    }
+
+    const changes = diffMetadata(before.room.metadata, after.room.metadata);
+    if (changes.length > 0) {
+      metadata.push({ ...after.ref, changes });
+    }
+  });
+
+  const buildings = {
+    added: missingFrom(toBuildings, fromBuildings),
+    removed: missingFrom(fromBuildings, toBuildings),
+  };
+  const rooms = {
+    added: missingFrom(toRooms, fromRooms).map((entry) => entry.ref),
+    removed: missingFrom(fromRooms, toRooms).map((entry) => entry.ref),
+  };
+
+  return {
+    summary: {
+      buildingsAdded: buildings.added.length,
+      buildingsRemoved: buildings.removed.length,
+      roomsAdded: rooms.added.length,
+      roomsRemoved: rooms.removed.length,
+      roomsWithPeriodChanges: periods.length,
+      periodsAdded: periods.reduce((sum, room) => sum + room.added.length, 0),
+      periodsRemoved: periods.reduce(
+        (sum, room) => sum + room.removed.length,
+        0
+      ),
+      roomsWithMetadataChanges: metadata.length,
+    },
+    buildings,
+    rooms,
+    periods,
+    metadata,
+  };
+}
@@ -0,0 +1,19 @@
+export function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(":").map((value) => Number(value));
+  return hours * 60 + minutes;
+}
+
+export function formatTime12(hourMinute: string): string {
+  const [hh, mm] = hourMinute.split(":").map(Number);
+  const period = hh >= 12 ? "PM" : "AM";
+  const hour = ((hh + 11) % 12) + 1;
+  return `${hour}:${mm.toString().padStart(2, "0")} ${period}`;
+}
+
+export function formatMinutes12(totalMinutes: number): string {
+  const hours = Math.floor(totalMinutes / 60) % 24;
+  const minutes = totalMinutes % 60;
+  return formatTime12(
+    `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}`
+  );
+}
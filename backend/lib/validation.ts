@@ -0,0 +1,522 @@
+import { z } from "zod";
+import { parseAmenityList } from "./amenities.js";
+import {
+  findUnknownPeriods,
+  parseClockTime,
+  parseDayCode,
+} from "./availability.js";
+import { isIsoDate } from "./calendar.js";
+import { ROOM_FACETS } from "./facets.js";
+import { parseCoordinates, parseRadius } from "./geo.js";
+import { PERIOD_MATCH_MODES } from "./periodMatch.js";
+import type { PeriodSchedule } from "./periodSchedules.js";
+import { decodeRoomCursor, ROOM_FIELDS, ROOM_SORTS } from "./roomList.js";
+import { parseDayPattern, parseDuration, parsePeriodRange } from "./search.js";
+
+export interface RouteSchemaContext {
+  classSizes: string[];
+  schedule: PeriodSchedule;
+  // Every loaded term, so `?term=` can pick any of them.
+  terms: string[];
+}
+
+export interface RouteSchema {
+  params?: z.ZodTypeAny;
+  query?: z.ZodTypeAny;
+}
+
+export interface ValidationIssue {
+  in: "params" | "query";
+  field: string;
+  message: string;
+}
+
+export interface ValidationErrorBody {
+  error: string;
+  issues: ValidationIssue[];
+}
+
+type ValidatedInput<S extends RouteSchema> = {
+  params: S["params"] extends z.ZodTypeAny ? z.output<S["params"]> : never;
+  query: S["query"] extends z.ZodTypeAny ? z.output<S["query"]> : never;
+};
+
+export type ValidationResult<S extends RouteSchema> =
+  | ({ success: true } & ValidatedInput<S>)
+  | { success: false; body: ValidationErrorBody };
+
+// Blank query values (`?size=`) behave as if the parameter was left out.
+function optional<T extends z.ZodTypeAny>(schema: T) {
+  return z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    schema.optional()
+  );
+}
+
+// Runs one of the lib parsers on the output of `schema`, turning a null result
+// or RangeError into an issue on the field instead of a thrown error.
+function parsedWith<S extends z.ZodTypeAny, T>(
+  schema: S,
+  parse: (value: z.output<S>) => T | null,
+  message: string
+): z.ZodEffects<S, T, z.input<S>> {
+  return schema.transform((value, ctx) => {
+    try {
+      const result = parse(value);
+      if (result !== null) return result;
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: (error as Error).message,
+      });
+    }
+    return z.NEVER;
+  });
+}
+
+function parsedString<T>(
+  parse: (value: string) => T | null,
+  message: string
+): z.ZodEffects<z.ZodString, T, string> {
+  return parsedWith(z.string(), parse, message);
+}
+
+// Accepts repeated keys (`?periods=4&periods=5`) or a comma-separated list.
+function splitList(value: unknown): string[] {
+  return (Array.isArray(value) ? value : String(value).split(","))
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+}
+
+const stringList = z.preprocess(splitList, z.array(z.string()));
+
+const positiveInteger = z.coerce.number().int().positive();
+
+const buildingCode = z
+  .string()
+  .regex(/^[A-Za-z]{2,4}$/, "Expected a 2–4 letter building code.");
+
+const dayOrDate = z
+  .string()
+  .refine(
+    (value) => isIsoDate(value.trim()) || parseDayCode(value) !== null,
+    "Expected a weekday (TH, thursday) or an ISO date (2025-10-23)."
+  );
+
+const clockTime = parsedString(
+  parseClockTime,
+  "Expected a clock time (14:00 or 2pm)."
+);
+
+const timeQuery = {
+  at: optional(
+    z
+      .string()
+      .refine(
+        (value) => !Number.isNaN(Date.parse(value)),
+        "Expected an ISO timestamp."
+      )
+  ).describe("ISO timestamp to evaluate at; overrides day and time."),
+  day: optional(dayOrDate).describe(
+    "Weekday (TH, thursday) or ISO date; the next matching day is used."
+  ),
+  time: optional(
+    z
+      .string()
+      .refine(
+        (value) => parseClockTime(value) !== null,
+        "Expected a clock time (14:00 or 2pm)."
+      )
+  ).describe("Clock time such as 14:00 or 2pm."),
+};
+
+const roomFilterQuery = {
+  minCapacity: optional(positiveInteger).describe("Minimum seating capacity."),
+  amenities: optional(
+    parsedWith(stringList, parseAmenityList, "Expected amenity slugs.")
+  ).describe(
+    "Comma-separated amenity slugs the room must have (e.g. projector)."
+  ),
+  buildingCode: optional(buildingCode).describe("Campus building code."),
+};
+
+const roomFeatureQuery = {
+  minCapacity: roomFilterQuery.minCapacity,
+  maxCapacity: optional(positiveInteger).describe("Maximum seating capacity."),
+  amenities: roomFilterQuery.amenities,
+};
+
+const proximityQuery = {
+  near: optional(
+    parsedString(parseCoordinates, 'Expected "lat,lng" in decimal degrees.')
+  ).describe(
+    "Origin as lat,lng; results are ordered by distance and report distanceMeters and walkingMinutes."
+  ),
+  radius: optional(
+    parsedString(parseRadius, "Expected a distance such as 800, 800m or 1.5km.")
+  ).describe("Only include buildings within this distance of near."),
+};
+
+function requireNearForRadius(
+  query: { near?: unknown; radius?: unknown },
+  ctx: z.RefinementCtx
+) {
+  if (query.radius !== undefined && !query.near) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'radius requires "near".',
+      path: ["near"],
+    });
+  }
+}
+
+function requirePeriodMatchScope(
+  query: {
+    days?: string[] | null;
+    periods?: Set<string> | null;
+    match?: string | null;
+  },
+  ctx: z.RefinementCtx
+) {
+  if (query.match === "all" && (!query.days || !query.periods)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'match=all requires both "days" and "periods".',
+      path: ["match"],
+    });
+  }
+}
+
+function requireCapacityOrder(
+  query: { minCapacity?: number | null; maxCapacity?: number | null },
+  ctx: z.RefinementCtx
+) {
+  if (
+    query.minCapacity &&
+    query.maxCapacity &&
+    query.minCapacity > query.maxCapacity
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "maxCapacity must be at least minCapacity.",
+      path: ["maxCapacity"],
+    });
+  }
+}
+
+const roomListQuery = {
+  sort: optional(z.enum(ROOM_SORTS)).describe(
+    "openUntil (most free time first), capacity (largest first), distance (nearest to `near` first) or name."
+  ),
+  limit: optional(positiveInteger.max(500)).describe(
+    "Rooms per page (at most 500)."
+  ),
+  cursor: optional(
+    parsedString(decodeRoomCursor, "Expected a cursor from a previous page.")
+  ).describe("page.nextCursor from the previous response."),
+  fields: optional(
+    z.preprocess(splitList, z.array(z.enum(ROOM_FIELDS)))
+  ).describe(
+    "Room fields to include, e.g. availability,metadata.capacity. Defaults to everything."
+  ),
+  shape: optional(z.enum(["nested", "flat"])).describe(
+    "nested (buildings[] → rooms[], default) or flat (rooms[] with their building)."
+  ),
+  facets: optional(
+    z.preprocess(splitList, z.array(z.enum(ROOM_FACETS)))
+  ).describe(
+    "Facet counts to return alongside the rooms: amenities, capacity, buildings, availability."
+  ),
+};
+
+const snapshotVersion = z
+  .string()
+  .regex(/^[0-9a-f]{12}$/, "Expected a 12-character snapshot version.");
+
+export const roomIdParams = z.object({
+  id: parsedString((raw) => {
+    const match = raw.toUpperCase().match(/^([A-Z]{2,4})[-_]?([0-9A-Z]{1,4})$/);
+    if (!match) return null;
+    const [, code, roomNumber] = match;
+    return { buildingCode: code, roomNumber: roomNumber.padStart(4, "0") };
+  }, "Expected a room ID such as AND-0013.").describe(
+    "Building code and room number, e.g. AND-0013."
+  ),
+});
+
+function sizeParam(context: RouteSchemaContext) {
+  const message = `Expected one of the STARS class sizes: ${context.classSizes.join(
+    ", "
+  )}.`;
+  const [first, ...rest] = context.classSizes;
+  const schema =
+    first === undefined
+      ? z.string().refine(() => false, message)
+      : z.enum([first, ...rest], { errorMap: () => ({ message }) });
+  return schema.describe("STARS class-size bucket.");
+}
+
+// Term names are matched case-insensitively and reported in their canonical
+// spelling.
+function termQuery(context: RouteSchemaContext) {
+  const message = `Expected one of the loaded terms: ${
+    context.terms.join(", ") || "none"
+  }.`;
+  const [first, ...rest] = context.terms;
+  const schema =
+    first === undefined
+      ? z.string().refine(() => false, message)
+      : z.enum([first, ...rest], { errorMap: () => ({ message }) });
+  return {
+    term: optional(
+      z.preprocess(
+        (value) =>
+          typeof value === "string"
+            ? context.terms.find(
+                (term) => term.toLowerCase() === value.trim().toLowerCase()
+              ) ?? value
+            : value,
+        schema
+      )
+    ).describe(
+      "Term to read, e.g. Spring 2026; defaults to the term in session today."
+    ),
+  };
+}
+
+function periodList(context: RouteSchemaContext) {
+  return stringList
+    .describe(
+      `Comma-separated STARS periods (${Object.keys(context.schedule).join(
+        ", "
+      )}).`
+    )
+    .transform((periods, ctx) => {
+      const normalized = periods.map((period) => period.toUpperCase());
+      const unknown = findUnknownPeriods(normalized, context.schedule);
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Unknown period(s) for the active term: ${unknown.join(
+            ", "
+          )}.`,
+        });
+        return z.NEVER;
+      }
+      return normalized.length ? new Set(normalized) : null;
+    });
+}
+
+// Schemas depend on the loaded dataset (class sizes) and its period schedule,
+// so they are rebuilt whenever a new snapshot is swapped in.
+export function createRouteSchemas(context: RouteSchemaContext) {
+  const term = termQuery(context);
+  const roomScope = {
+    size: optional(sizeParam(context)).describe(
+      "Minimum STARS class-size bucket."
+    ),
+    buildingId: optional(z.string()).describe("STARS building ID."),
+    buildingCode: optional(buildingCode).describe("Campus building code."),
+    room: optional(z.string().regex(/^[0-9A-Za-z]{1,4}$/)).describe(
+      "Room number."
+    ),
+    periods: optional(periodList(context)),
+    days: optional(
+      parsedString(parseDayPattern, "Expected days such as MWF.")
+    ).describe("Only count free periods on these days (MWF, TR, W)."),
+    match: optional(z.enum(PERIOD_MATCH_MODES)).describe(
+      "any (default): one free day/period combination is enough; all: every requested period must be free on every requested day."
+    ),
+  };
+  return {
+    roomsOpen: {
+      query: z
+        .object({
+          ...roomScope,
+          ...roomFeatureQuery,
+          ...timeQuery,
+          ...proximityQuery,
+          ...roomListQuery,
+          ...term,
+        })
+        .superRefine((query, ctx) => {
+          if (query.sort === "distance" && !query.near) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: 'sort=distance requires "near".',
+              path: ["near"],
+            });
+          }
+          requireNearForRadius(query, ctx);
+          requirePeriodMatchScope(query, ctx);
+          requireCapacityOrder(query, ctx);
+          const sort = query.sort ?? (query.near ? "distance" : null);
+          if (query.cursor && query.cursor.sort !== sort) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              message: "The cursor belongs to a different sort order.",
+              path: ["cursor"],
+            });
+          }
+        }),
+    },
+    roomsStream: {
+      query: z
+        .object({ ...roomScope, ...roomFeatureQuery, ...term })
+        .superRefine((query, ctx) => {
+          requirePeriodMatchScope(query, ctx);
+          requireCapacityOrder(query, ctx);
+        }),
+    },
+    room: {
+      params: roomIdParams,
+      query: z.object({ ...timeQuery, ...term }),
+    },
+    roomSchedule: {
+      params: roomIdParams,
+      query: z.object({
+        size: optional(sizeParam(context)).describe(
+          "Use one STARS size bucket instead of merging all of them."
+        ),
+        ...term,
+      }),
+    },
+    roomCalendar: {
+      params: roomIdParams,
+      query: z.object({
+        day: optional(
+          parsedString(parseDayCode, "Expected a weekday (M or TH).")
+        ).describe("Only include this weekday."),
+        minLength: optional(
+          parsedString(parseDuration, "Expected a duration (60, 1h or 1h30m).")
+        ).describe("Drop free blocks shorter than this (60, 1h or 1h30m)."),
+        ...term,
+      }),
+    },
+    building: {
+      params: z.object({
+        idOrCode: z
+          .string()
+          .regex(
+            /^[A-Za-z0-9]{2,16}$/,
+            "Expected a building code (AND) or STARS building ID."
+          )
+          .transform((value) => value.toUpperCase())
+          .describe("Campus building code (AND) or STARS building ID."),
+      }),
+      query: z.object({ ...timeQuery, ...term }),
+    },
+    buildings: {
+      query: z
+        .object({ ...timeQuery, ...proximityQuery, ...term })
+        .superRefine(requireNearForRadius),
+    },
+    searchSlots: {
+      query: z.object({
+        duration: parsedString(
+          parseDuration,
+          "Expected a positive duration (120, 2h or 1h30m)."
+        ).describe("Minimum free time needed (120, 2h or 1h30m)."),
+        day: optional(dayOrDate).describe(
+          "Weekday or ISO date to search; defaults to today."
+        ),
+        after: optional(clockTime).describe(
+          "Earliest start; defaults to now for today."
+        ),
+        before: optional(clockTime).describe("Latest end time."),
+        ...roomFilterQuery,
+        ...term,
+      }),
+    },
+    searchRecurring: {
+      query: z.object({
+        days: parsedString(
+          parseDayPattern,
+          "Expected days such as MWF."
+        ).describe("Registrar day pattern such as MWF or TR."),
+        periods: parsedString(
+          (value) => parsePeriodRange(value, context.schedule),
+          "Expected periods such as 4 or 5-6."
+        ).describe("Period, range or list such as 4, 5-6 or 10-E1."),
+        ...roomFilterQuery,
+        ...term,
+      }),
+    },
+    searchGroup: {
+      query: z
+        .object({
+          count: positiveInteger.describe("Number of rooms needed."),
+          day: optional(dayOrDate).describe(
+            "Weekday or ISO date to search; defaults to today."
+          ),
+          start: clockTime.describe("Window start (14:00 or 2pm)."),
+          end: clockTime.describe("Window end (16:00 or 4pm)."),
+          ...roomFilterQuery,
+          ...term,
+        })
+        .refine((query) => query.end > query.start, {
+          message: '"end" must be after "start".',
+          path: ["end"],
+        }),
+    },
+    // History can include terms that are no longer loaded, so `term` is not
+    // limited to the loaded ones here.
+    snapshots: {
+      query: z.object({
+        term: optional(z.string().trim().min(1)).describe(
+          "Only list versions of this term."
+        ),
+        limit: optional(positiveInteger.max(500)).describe(
+          "Newest versions to return (at most 500)."
+        ),
+      }),
+    },
+    snapshotsDiff: {
+      query: z.object({
+        from: snapshotVersion.describe("Version to compare from."),
+        to: optional(snapshotVersion).describe(
+          "Version to compare to; defaults to the current version of the same term."
+        ),
+      }),
+    },
+  } satisfies Record<string, RouteSchema>;
+}
+
+export type RouteSchemas = ReturnType<typeof createRouteSchemas>;
+
+function collectIssues(
+  location: ValidationIssue["in"],
+  error: z.ZodError
+): ValidationIssue[] {
+  return error.issues.map((issue) => ({
+    in: location,
+    field: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+}
+
+// Validates params and query together so a single 400 lists every issue.
+export function validateRequest<S extends RouteSchema>(
+  schema: S,
+  request: { params: unknown; query: unknown }
+): ValidationResult<S> {
+  const params = schema.params?.safeParse(request.params);
+  const query = schema.query?.safeParse(request.query);
+  const issues = [
+    ...(params && !params.success ? collectIssues("params", params.error) : []),
+    ...(query && !query.success ? collectIssues("query", query.error) : []),
+  ];
+
+  if (issues.length > 0) {
+    return {
+      success: false,
+      body: { error: "Invalid request parameters.", issues },
+    };
+  }
+  return {
+    success: true,
+    params: params?.success ? params.data : undefined,
+    query: query?.success ? query.data : undefined,
+  } as ValidationResult<S>;
+}
@@ -0,0 +1,249 @@
+#!/usr/bin/env tsx
+
+// Compares the copy-per-request path for /api/rooms/open
+// (filterAvailability → applyRealtimeStatus → stripPeriods → flattenRooms)
+// with the snapshot index (queryRooms) on the full campus dataset, and checks
+// that both return the same rooms.
+//
+//   npm run bench:rooms -- --iterations 200 --at 2025-10-22T10:50:00-04:00
+//
+// The dataset is loaded like the server does (DATASET_SOURCES); pass
+// --replicate N to multiply a partial local fixture up to campus size.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { performance } from "node:perf_hooks";
+import dotenv from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import {
+  applyRealtimeStatus,
+  getCurrentEasternContext,
+  getEasternContext,
+  PERIOD_DEFINITIONS,
+  type AvailabilityDataset,
+  type StatusOptions,
+  type TimeContext,
+} from "../lib/availability.js";
+import {
+  filterAvailability,
+  stripPeriods,
+  type AvailabilityFilters,
+} from "../lib/availabilityFilter.js";
+import type { BuildingHoursConfig } from "../lib/buildingHours.js";
+import type { AcademicCalendar } from "../lib/calendar.js";
+import {
+  loadFromSources,
+  resolveDatasetSources,
+} from "../lib/datasetSources.js";
+import {
+  createPeriodMatch,
+  listMatchedPeriods,
+  type PeriodMatch,
+} from "../lib/periodMatch.js";
+import {
+  resolvePeriodSchedule,
+  type PeriodScheduleConfig,
+} from "../lib/periodSchedules.js";
+import { createRoomIndex, queryRooms } from "../lib/roomIndex.js";
+import { flattenRooms, type FlatRoom } from "../lib/roomList.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const backendRoot = path.resolve(path.dirname(__filename), "..");
+
+dotenv.config({ path: path.join(backendRoot, ".env") });
+
+const { values } = parseArgs({
+  options: {
+    iterations: { type: "string", default: "200" },
+    replicate: { type: "string", default: "1" },
+    at: { type: "string" },
+    term: { type: "string" },
+  },
+});
+
+function readConfig<T>(name: string): T | null {
+  const file = path.join(backendRoot, "config", name);
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : null;
+}
+
+const periodScheduleConfig = readConfig<PeriodScheduleConfig>(
+  "period-schedules.json"
+);
+
+function scheduleForTerm(term: string | null | undefined) {
+  return (
+    resolvePeriodSchedule(periodScheduleConfig, term) ?? PERIOD_DEFINITIONS
+  );
+}
+
+// Copies every building with a suffixed ID and code so lookups stay unique.
+function replicate(
+  dataset: AvailabilityDataset,
+  copies: number
+): AvailabilityDataset {
+  if (copies <= 1) return dataset;
+  return {
+    ...dataset,
+    buildings: Array.from({ length: copies }, (_, copy) =>
+      dataset.buildings.map((building) =>
+        copy === 0
+          ? building
+          : {
+              ...building,
+              id: `${building.id}-${copy}`,
+              code: building.code ? `${building.code}${copy}` : null,
+            }
+      )
+    ).flat(),
+  };
+}
+
+interface Scenario {
+  name: string;
+  filters: AvailabilityFilters;
+  periodMatch: PeriodMatch | null;
+}
+
+const SCENARIOS: Scenario[] = [
+  { name: "all rooms", filters: {}, periodMatch: null },
+  {
+    name: "amenities + capacity",
+    filters: { amenities: ["projector"], minCapacity: 30 },
+    periodMatch: null,
+  },
+  { name: "one building", filters: { buildingCode: "AND" }, periodMatch: null },
+  {
+    name: "periods 4,5 (any day)",
+    filters: {},
+    periodMatch: createPeriodMatch({ periods: new Set(["4", "5"]) }),
+  },
+  {
+    name: "W periods 4,5 (all)",
+    filters: {},
+    periodMatch: createPeriodMatch({
+      days: ["W"],
+      periods: new Set(["4", "5"]),
+      match: "all",
+    }),
+  },
+];
+
+// The copy path derived capacity from the size buckets left after period
+// matching, so a room could report less than the capacity it was filtered on.
+// The index always reports the room's own capacity; compare on that.
+function copyPath(
+  dataset: AvailabilityDataset,
+  capacities: Map<string, number | null>,
+  scenario: Scenario,
+  context: TimeContext,
+  options: StatusOptions
+): FlatRoom[] {
+  const response = applyRealtimeStatus(
+    filterAvailability(dataset, scenario.filters, scenario.periodMatch),
+    context,
+    options
+  );
+  if (!scenario.periodMatch) {
+    stripPeriods(response);
+    return flattenRooms(response);
+  }
+  return flattenRooms(response).map((room) => ({
+    ...room,
+    capacity: capacities.get(room.id) ?? null,
+    matchedPeriods: listMatchedPeriods(room.availability),
+  }));
+}
+
+function timePerCall(iterations: number, run: () => unknown): number {
+  const start = performance.now();
+  for (let i = 0; i < iterations; i += 1) run();
+  return (performance.now() - start) / iterations;
+}
+
+async function main() {
+  const supabase =
+    process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE
+      ? createClient(
+          process.env.SUPABASE_URL,
+          process.env.SUPABASE_SERVICE_ROLE
+        )
+      : null;
+  const loaded = await loadFromSources(
+    resolveDatasetSources({ backendRoot, supabase, scheduleForTerm })
+  );
+  if (!loaded) {
+    throw new Error("No dataset found; run `npm run refresh:data` first.");
+  }
+
+  const source = values.term
+    ? loaded.datasets.find(
+        (dataset) => dataset.term.toLowerCase() === values.term?.toLowerCase()
+      )
+    : loaded.datasets
+        .slice()
+        .sort((a, b) => b.fetchedAt.localeCompare(a.fetchedAt))[0];
+  if (!source) throw new Error(`Term "${values.term}" is not loaded.`);
+
+  const dataset = replicate(source, Number(values.replicate));
+  const iterations = Number(values.iterations);
+  const context = values.at
+    ? getEasternContext(new Date(values.at))
+    : getCurrentEasternContext();
+  if (!context) throw new Error("Could not resolve the evaluation time.");
+
+  const schedule = scheduleForTerm(dataset.term);
+  const options: StatusOptions = {
+    calendar: readConfig<AcademicCalendar>("academic-calendar.json"),
+    schedule,
+    buildingHours: readConfig<BuildingHoursConfig>("building-hours.json"),
+  };
+  const capacities = new Map(
+    flattenRooms(dataset).map((room) => [room.id, room.capacity])
+  );
+  const roomCount = capacities.size;
+
+  const buildStart = performance.now();
+  const index = createRoomIndex(dataset, options);
+  const buildMs = performance.now() - buildStart;
+
+  console.log(
+    `${dataset.term} from ${loaded.source}: ${dataset.buildings.length} buildings, ${roomCount} rooms; evaluated at ${context.date} ${context.dayCode} minute ${context.minutes}.`
+  );
+  console.log(`Index built in ${buildMs.toFixed(1)} ms.\n`);
+
+  const rows = SCENARIOS.map((scenario) => {
+    const expected = JSON.stringify(
+      copyPath(dataset, capacities, scenario, context, options)
+    );
+    const coldStart = performance.now();
+    const actual = JSON.stringify(
+      queryRooms(index, scenario.filters, scenario.periodMatch, context)
+    );
+    const coldMs = performance.now() - coldStart;
+
+    return {
+      scenario: scenario.name,
+      rooms: (JSON.parse(actual) as FlatRoom[]).length,
+      "copy ms": timePerCall(iterations, () =>
+        copyPath(dataset, capacities, scenario, context, options)
+      ).toFixed(3),
+      "index cold ms": coldMs.toFixed(3),
+      "index ms": timePerCall(iterations, () =>
+        queryRooms(index, scenario.filters, scenario.periodMatch, context)
+      ).toFixed(3),
+      "same result": expected === actual,
+    };
+  });
+
+  console.table(rows);
+  if (rows.some((row) => !row["same result"])) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -8,12 +8,19 @@ import readline from "node:readline/promises";
 import { stdin as input, stdout as output } from "node:process";
 import dotenv from "dotenv";
 import { chromium } from "playwright";
+import { getCurrentEasternContext } from "../lib/availability.js";
+import { findTermForDate, type AcademicCalendar } from "../lib/calendar.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const backendRoot = path.resolve(__dirname, "..");
 const dataDir = path.join(backendRoot, "data");
 const campusBoundariesPath = path.join(dataDir, "campus-boundaries.json");
+const academicCalendarPath = path.join(
+  backendRoot,
+  "config",
+  "academic-calendar.json"
+);
 
 dotenv.config({ path: path.join(backendRoot, ".env") });
 
@@ -21,14 +28,11 @@ const rl = readline.createInterface({ input, output });
 
 const { values } = parseArgs({
   options: {
-    term: { type: "string", default: "Fall 2025" },
+    term: { type: "string" },
     size: { type: "string" },
     sizes: { type: "string" }, // comma-separated list
     buildings: { type: "string" }, // comma-separated list of building IDs
-    output: {
-      type: "string",
-      default: path.join(dataDir, "stars-open-rooms.json"),
-    },
+    output: { type: "string" },
     headless: { type: "boolean", default: false },
   },
 });
@@ -49,7 +53,35 @@ const requestedBuildingIds = values.buildings
   ? values.buildings.split(",").map((token) => token.trim())
   : null;
 
-const term = values.term ?? "Fall 2025";
+// Without --term, fetch the term in session today, or the next one to start
+// when run between terms.
+function resolveDefaultTerm(): string {
+  const calendar = fs.existsSync(academicCalendarPath)
+    ? (JSON.parse(
+        fs.readFileSync(academicCalendarPath, "utf8")
+      ) as AcademicCalendar)
+    : null;
+  const today = getCurrentEasternContext()?.date;
+  const current = calendar && today ? findTermForDate(calendar, today) : null;
+  const upcoming = calendar?.terms
+    .filter((entry) => today && entry.start > today)
+    .sort((a, b) => a.start.localeCompare(b.start))[0];
+  const resolved = current ?? upcoming;
+  if (!resolved) {
+    throw new Error(
+      `No current or upcoming term in ${academicCalendarPath}; pass --term.`
+    );
+  }
+  return resolved.term;
+}
+
+const term = values.term ?? resolveDefaultTerm();
+
+// Each term gets its own file so fetching next term keeps the current one.
+const defaultOutputPath = path.join(
+  dataDir,
+  `stars-open-rooms-${term.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.json`
+);
 
 interface BoundaryFeature {
   properties?: {
@@ -404,7 +436,7 @@ async function main() {
   }
 
   ensureDir(dataDir);
-  const outputPath = path.resolve(values.output);
+  const outputPath = path.resolve(values.output ?? defaultOutputPath);
   const payload = {
     fetchedAt: new Date().toISOString(),
     term,
@@ -0,0 +1,99 @@
+#!/usr/bin/env tsx
+
+// Copies each term from the pre-versioning `room_availability_snapshots`
+// table into `room_availability_versions` and points
+// `room_availability_current` at it, in every configured source that has the
+// old table. Terms that already have a current version are left alone, so the
+// script is safe to re-run after publishing.
+
+import fs from "node:fs";
+import path from "node:path";
+import dotenv from "dotenv";
+import { createClient } from "@supabase/supabase-js";
+import { PERIOD_DEFINITIONS } from "../lib/availability.js";
+import { resolveDatasetSources } from "../lib/datasetSources.js";
+import {
+  resolvePeriodSchedule,
+  type PeriodScheduleConfig,
+} from "../lib/periodSchedules.js";
+
+const BACKEND_ROOT = process.cwd();
+
+dotenv.config({ path: path.join(BACKEND_ROOT, ".env") });
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE = process.env.SUPABASE_SERVICE_ROLE;
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE)
+    : null;
+
+const PERIOD_SCHEDULES_FILE = path.join(
+  BACKEND_ROOT,
+  "config",
+  "period-schedules.json"
+);
+
+const scheduleConfig: PeriodScheduleConfig | null = fs.existsSync(
+  PERIOD_SCHEDULES_FILE
+)
+  ? JSON.parse(fs.readFileSync(PERIOD_SCHEDULES_FILE, "utf8"))
+  : null;
+
+function scheduleForTerm(term: string | null | undefined) {
+  return resolvePeriodSchedule(scheduleConfig, term) ?? PERIOD_DEFINITIONS;
+}
+
+async function migrate() {
+  const sources = resolveDatasetSources({
+    backendRoot: BACKEND_ROOT,
+    supabase,
+    scheduleForTerm,
+  }).filter((source) => source.loadLegacy && source.save);
+
+  let copied = 0;
+  for (const source of sources) {
+    let legacy;
+    try {
+      legacy = (await source.loadLegacy?.()) ?? [];
+    } catch (error) {
+      console.log(
+        `No legacy snapshots in ${source.kind} (${source.location}): ${
+          (error as Error).message
+        }`
+      );
+      continue;
+    }
+    if (legacy.length === 0) {
+      console.log(
+        `No legacy snapshots in ${source.kind} (${source.location}).`
+      );
+      continue;
+    }
+
+    // Supabase needs publish-availability.sql applied first; let that error
+    // surface instead of writing into tables that don't exist.
+    const current = new Set(
+      (await source.load()).map((dataset) => dataset.term.toLowerCase())
+    );
+    for (const dataset of legacy) {
+      if (current.has(dataset.term.toLowerCase())) {
+        console.log(
+          `Skipped "${dataset.term}" in ${source.kind}: it already has a current version.`
+        );
+        continue;
+      }
+      const version = await source.save?.(dataset);
+      copied += 1;
+      console.log(
+        `Copied "${dataset.term}" (fetched ${dataset.fetchedAt}) in ${source.kind} as version ${version}.`
+      );
+    }
+  }
+  console.log(`Migrated ${copied} legacy snapshot(s).`);
+}
+
+migrate().catch((error) => {
+  console.error("Failed to migrate legacy snapshots:", error);
+  process.exit(1);
+});
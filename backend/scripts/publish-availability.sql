@@ -1 +1,24 @@
-create table if not exists room_availability_snapshots (\n  term text primary key,\n  fetched_at timestamptz not null,\n  data jsonb not null,\n  created_at timestamptz default timezone('utc', now())\n);
+-- Every published dataset is kept as a version; the current table points each
+-- term at the version the server should load.
+create table if not exists room_availability_versions (
+  version text primary key,
+  term text not null,
+  fetched_at timestamptz not null,
+  data jsonb not null,
+  created_at timestamptz default timezone('utc', now())
+);
+
+create index if not exists room_availability_versions_term_idx
+  on room_availability_versions (term, created_at desc);
+
+create table if not exists room_availability_current (
+  term text primary key,
+  version text not null references room_availability_versions (version),
+  updated_at timestamptz default timezone('utc', now())
+);
+
+-- Projects upgrading from the one-row-per-term room_availability_snapshots
+-- table: apply this file, then run `npm run migrate:snapshots` to copy each
+-- term into the tables above (versions are content hashes computed in
+-- TypeScript). Until then the server keeps serving the old table. Drop it
+-- once the migration has run.
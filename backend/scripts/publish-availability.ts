@@ -4,66 +4,86 @@ import fs from "node:fs";
 import path from "node:path";
 import dotenv from "dotenv";
 import { createClient } from "@supabase/supabase-js";
+import { PERIOD_DEFINITIONS } from "../lib/availability.js";
 import {
-  buildAvailabilityDataset,
-  type AvailabilityDataset,
-  type RawStarsData,
-  type RawClassroomDataset,
-} from "../lib/availability.js";
+  createLocalDirectorySource,
+  resolveDatasetSources,
+} from "../lib/datasetSources.js";
+import {
+  resolvePeriodSchedule,
+  type PeriodScheduleConfig,
+} from "../lib/periodSchedules.js";
+
+const BACKEND_ROOT = process.cwd();
 
-dotenv.config({ path: path.join(process.cwd(), ".env") });
+dotenv.config({ path: path.join(BACKEND_ROOT, ".env") });
 
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_SERVICE_ROLE = process.env.SUPABASE_SERVICE_ROLE;
+const supabase =
+  SUPABASE_URL && SUPABASE_SERVICE_ROLE
+    ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE)
+    : null;
 
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE) {
-  console.error("Missing SUPABASE_URL or SUPABASE_SERVICE_ROLE in .env");
-  process.exit(1);
-}
-
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE);
+const PERIOD_SCHEDULES_FILE = path.join(
+  BACKEND_ROOT,
+  "config",
+  "period-schedules.json"
+);
 
-const DATA_DIR = path.join(process.cwd(), "data");
-const SNAPSHOT_DIR = path.join(DATA_DIR, "snapshots");
-const STARS_FILE = path.join(SNAPSHOT_DIR, "stars-open-rooms.json");
-const CLASSROOMS_FILE = path.join(SNAPSHOT_DIR, "classrooms.json");
+const scheduleConfig: PeriodScheduleConfig | null = fs.existsSync(
+  PERIOD_SCHEDULES_FILE
+)
+  ? JSON.parse(fs.readFileSync(PERIOD_SCHEDULES_FILE, "utf8"))
+  : null;
 
-function readJson<T>(filePath: string): T {
-  if (!fs.existsSync(filePath)) {
-    throw new Error(`File not found: ${filePath}`);
-  }
-  return JSON.parse(fs.readFileSync(filePath, "utf8")) as T;
+function scheduleForTerm(term: string | null | undefined) {
+  return resolvePeriodSchedule(scheduleConfig, term) ?? PERIOD_DEFINITIONS;
 }
 
 async function publish() {
-  console.log("Reading local cache...");
-  const stars = readJson<RawStarsData>(STARS_FILE);
-  const classrooms = readJson<RawClassroomDataset>(CLASSROOMS_FILE);
-
-  console.log("Building availability dataset...");
-  const dataset: AvailabilityDataset = buildAvailabilityDataset(
-    stars,
-    classrooms
-  );
-
-  console.log("Uploading snapshot to Supabase...");
-  const { error } = await supabase.from("room_availability_snapshots").upsert(
-    {
-      term: dataset.term || stars.term,
-      fetched_at: dataset.fetchedAt,
-      data: dataset,
-    },
-    { onConflict: "term" }
-  );
-
-  if (error) {
-    console.error("Supabase upsert failed:", error);
+  // Same resolution as the server: the local directory is the input, and every
+  // other configured source that can be written to receives the snapshot.
+  const sources = resolveDatasetSources({
+    backendRoot: BACKEND_ROOT,
+    supabase,
+    scheduleForTerm,
+  });
+  const input =
+    sources.find((source) => source.kind === "local") ??
+    createLocalDirectorySource(
+      path.resolve(BACKEND_ROOT, process.env.DATASET_DIR || "data"),
+      scheduleForTerm
+    );
+  const targets = sources.filter((source) => source.save);
+  if (targets.length === 0) {
+    console.error(
+      "No writable dataset source configured. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE, or include sqlite in DATASET_SOURCES."
+    );
     process.exit(1);
   }
 
-  console.log(
-    `Published availability snapshot for term "${dataset.term}" (fetched ${dataset.fetchedAt}).`
-  );
+  console.log(`Reading local cache from ${input.location}...`);
+  const datasets = await input.load();
+  if (datasets.length === 0) {
+    throw new Error(
+      `No stars-open-rooms*.json files found in ${input.location}`
+    );
+  }
+
+  for (const dataset of datasets) {
+    for (const target of targets) {
+      const version = await target.save?.(dataset);
+      console.log(
+        `Wrote "${dataset.term}" to ${target.kind} (${target.location}) as version ${version}.`
+      );
+    }
+    console.log(
+      `Published availability snapshot for term "${dataset.term}" (fetched ${
+        dataset.fetchedAt
+      }) to ${targets.map((target) => target.kind).join(", ")}.`
+    );
+  }
 }
 
 publish().catch((error) => {
@@ -2,7 +2,10 @@ import dotenv from "dotenv";
 import express, { Request, Response } from "express";
 import cors from "cors";
 import morgan from "morgan";
+import { createHash } from "crypto";
+import { EventEmitter } from "events";
 import fs from "fs";
+import { createRequire } from "module";
 import path from "path";
 import { fileURLToPath } from "url";
 import { createClient } from "@supabase/supabase-js";
@@ -13,12 +16,79 @@ import {
   type BuildingAvailability,
   type RoomAvailability,
   type SizeAvailability,
-  type RawClassroomDataset,
-  type RawStarsData,
-  PERIOD_START_TIMES,
+  type StatusOptions,
+  type TimeContext,
+  type TimeQuery,
+  PERIOD_DEFINITIONS,
   applyRealtimeStatus,
-  normalizeAvailabilityDataset,
+  describePeriodSchedule,
+  getPeriodStartTimes,
+  getCurrentEasternContext,
+  resolveTimeContext,
+  roomCapacity,
 } from "./lib/availability.js";
+import {
+  findTermByName,
+  findTermForDate,
+  resolveCalendarDay,
+  type AcademicCalendar,
+  type CalendarDayState,
+} from "./lib/calendar.js";
+import {
+  isOpenAt,
+  resolveBuildingHours,
+  type BuildingHoursConfig,
+} from "./lib/buildingHours.js";
+import {
+  resolvePeriodSchedule,
+  type PeriodSchedule,
+  type PeriodScheduleConfig,
+} from "./lib/periodSchedules.js";
+import {
+  datasetVersion,
+  loadFromSources,
+  resolveDatasetSources,
+  type DatasetSource,
+  type DatasetSourceKind,
+  type LoadedDatasets,
+} from "./lib/datasetSources.js";
+import { rankByDistance } from "./lib/geo.js";
+import { describeBuilding } from "./lib/buildingDetail.js";
+import { assessHealth } from "./lib/health.js";
+import { buildRoomCalendar } from "./lib/ics.js";
+import { buildOpenApiDocument, renderDocsPage } from "./lib/openapi.js";
+import {
+  diffRoomStatuses,
+  msUntilNextBoundary,
+  summarizeRoomStatuses,
+} from "./lib/roomStream.js";
+import { buildRoomSchedule } from "./lib/schedule.js";
+import { diffDatasets } from "./lib/snapshotDiff.js";
+import { computeRoomFacets } from "./lib/facets.js";
+import { createPeriodMatch } from "./lib/periodMatch.js";
+import { filterAvailability } from "./lib/availabilityFilter.js";
+import {
+  boundariesFor,
+  createRoomIndex,
+  queryRooms,
+  type RoomIndex,
+} from "./lib/roomIndex.js";
+import {
+  locateRooms,
+  nestRooms,
+  paginateRooms,
+  selectRoomFields,
+} from "./lib/roomList.js";
+import {
+  findFreeSlots,
+  findGroupBookings,
+  findRecurringSlots,
+} from "./lib/search.js";
+import {
+  createRouteSchemas,
+  validateRequest,
+  type RouteSchemas,
+} from "./lib/validation.js";
 
 dotenv.config();
 
@@ -35,7 +105,7 @@ const __filename: string = fileURLToPath(import.meta.url);
 const __dirname: string = path.dirname(__filename);
 
 const app = express();
-app.use(cors());
+app.use(cors({ exposedHeaders: ["X-Snapshot-Version"] }));
 app.use(express.json());
 app.use(morgan("dev"));
 
@@ -56,179 +126,667 @@ function readJsonFile<T>(relativePath: string): T | null {
   }
 }
 
-async function loadAvailabilityDataset(): Promise<AvailabilityDataset> {
-  if (supabase) {
-    try {
-      const { data, error } = await supabase
-        .from("room_availability_snapshots")
-        .select("data, term, fetched_at")
-        .order("fetched_at", { ascending: false })
-        .limit(1)
-        .single();
-
-      if (!error && data?.data) {
-        return normalizeAvailabilityDataset(
-          data.data as AvailabilityDataset
-        );
-      }
-      if (error) {
-        console.warn("Supabase query failed; falling back to local cache:", error);
-      }
-    } catch (err) {
-      console.warn("Supabase unavailable; falling back to local cache:", err);
-    }
-  }
+const PACKAGE_VERSION =
+  readJsonFile<{ version: string }>("package.json")?.version ?? "0.0.0";
+const ACADEMIC_CALENDAR = readJsonFile<AcademicCalendar>(
+  "config/academic-calendar.json"
+);
+const PERIOD_SCHEDULE_CONFIG = readJsonFile<PeriodScheduleConfig>(
+  "config/period-schedules.json"
+);
+const BUILDING_HOURS = readJsonFile<BuildingHoursConfig>(
+  "config/building-hours.json"
+);
 
-  const stars = readJsonFile<RawStarsData>("data/stars-open-rooms.json");
-  const classrooms = readJsonFile<RawClassroomDataset>("data/classrooms.json");
-  const dataset = buildAvailabilityDataset(stars, classrooms);
-  return normalizeAvailabilityDataset(dataset);
+function scheduleForTerm(term: string | null | undefined): PeriodSchedule {
+  return (
+    resolvePeriodSchedule(PERIOD_SCHEDULE_CONFIG, term) ?? PERIOD_DEFINITIONS
+  );
 }
 
-const AVAILABILITY_DATASET: AvailabilityDataset = await loadAvailabilityDataset();
+const DATASET_SOURCES = resolveDatasetSources({
+  backendRoot: __dirname,
+  supabase,
+  scheduleForTerm,
+});
 
-function filterAvailability(
-  dataset: AvailabilityDataset,
-  filters: {
-    size?: string | null;
-    buildingId?: string | null;
-    buildingCode?: string | null;
-    roomNumber?: string | null;
-  },
-  periodFilters?: Set<string> | null
-): AvailabilityDataset {
-  const sizeFilter = filters.size?.toUpperCase() ?? null;
-  const buildingIdFilter = filters.buildingId ?? null;
-  const buildingCodeFilter = filters.buildingCode
-    ? filters.buildingCode.toUpperCase()
-    : null;
-  const roomFilter = filters.roomNumber
-    ? filters.roomNumber.toUpperCase()
-    : null;
+async function loadAvailabilityDatasets(): Promise<LoadedDatasets> {
+  const loaded = await loadFromSources(DATASET_SOURCES);
+  if (loaded) return loaded;
 
-  const filteredBuildings: BuildingAvailability[] = dataset.buildings
-    .filter((building: BuildingAvailability) => {
-      if (buildingIdFilter && building.id !== buildingIdFilter) return false;
-      if (
-        buildingCodeFilter &&
-        building.code?.toUpperCase() !== buildingCodeFilter
-      ) {
-        return false;
-      }
-      return true;
-    })
-    .map((building: BuildingAvailability) => {
-      const rooms: RoomAvailability[] = [];
+  console.warn(
+    `No dataset found in sources: ${DATASET_SOURCES.map(
+      (source) => source.kind
+    ).join(", ")}.`
+  );
+  return {
+    datasets: [buildAvailabilityDataset(null, null, PERIOD_DEFINITIONS)],
+    source: null,
+    location: null,
+  };
+}
 
-      building.rooms.forEach((room: RoomAvailability) => {
-        if (roomFilter && room.number.toUpperCase() !== roomFilter) {
-          return;
-        }
+function hashVersion(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 12);
+}
 
-        const sizeEntries = sizeFilter
-          ? ([[sizeFilter, room.availability[sizeFilter]]] as Array<
-              [string, SizeAvailability | undefined]
-            >)
-          : (Object.entries(room.availability) as Array<
-              [string, SizeAvailability]
-            >);
-
-        const availability: Record<string, SizeAvailability> = {};
-
-        sizeEntries.forEach(([sizeKey, record]) => {
-          const cloned = cloneAvailabilityRecord(record, periodFilters);
-          if (cloned) {
-            availability[sizeKey] = cloned;
-          }
-        });
-
-        if (Object.keys(availability).length === 0) {
-          return;
-        }
+interface LoadedSnapshot {
+  dataset: AvailabilityDataset;
+  schedule: PeriodSchedule;
+  options: StatusOptions;
+  index: RoomIndex;
+  schemas: RouteSchemas;
+  version: string;
+}
 
-        rooms.push({
-          number: room.number,
-          metadata: room.metadata,
-          availability,
-        });
-      });
+interface SnapshotStore {
+  // Keyed by lower-cased term name so `?term=spring 2026` matches too.
+  terms: Map<string, LoadedSnapshot>;
+  source: DatasetSourceKind | null;
+  sourceLocation: string | null;
+  // A hash over every term's version, used to detect reloads. It matches no
+  // single snapshot, so responses report snapshotVersions() instead.
+  version: string;
+  loadedAt: string;
+}
 
-      return {
-        id: building.id,
-        code: building.code,
-        name: building.name,
-        campusId: building.campusId,
-        lat: building.lat,
-        lng: building.lng,
-        rooms,
-      };
-    })
-    .filter((building) => building.rooms.length > 0);
+function createSnapshot(
+  dataset: AvailabilityDataset,
+  terms: string[]
+): LoadedSnapshot {
+  const schedule = scheduleForTerm(dataset.term);
+  const options: StatusOptions = {
+    calendar: ACADEMIC_CALENDAR,
+    schedule,
+    buildingHours: BUILDING_HOURS,
+  };
+  return {
+    dataset,
+    schedule,
+    options,
+    index: createRoomIndex(dataset, options),
+    schemas: createRouteSchemas({
+      classSizes: dataset.classSizes,
+      schedule,
+      terms,
+    }),
+    version: datasetVersion(dataset),
+  };
+}
 
+function createSnapshotStore({
+  datasets,
+  source,
+  location,
+}: LoadedDatasets): SnapshotStore {
+  const termNames = datasets.map((dataset) => dataset.term).filter(Boolean);
+  const terms = new Map(
+    datasets.map((dataset) => [
+      dataset.term.toLowerCase(),
+      createSnapshot(dataset, termNames),
+    ])
+  );
   return {
-    fetchedAt: dataset.fetchedAt,
-    term: dataset.term,
-    classSizes: dataset.classSizes,
-    buildings: filteredBuildings,
+    terms,
+    source,
+    sourceLocation: location,
+    version: hashVersion(
+      Array.from(terms.values())
+        .map((snapshot) => snapshot.version)
+        .sort()
+        .join(",")
+    ),
+    loadedAt: new Date().toISOString(),
   };
 }
 
-// ------------ Routes ------------
+function countBuildings(store: SnapshotStore): number {
+  return Array.from(store.terms.values()).reduce(
+    (total, snapshot) => total + snapshot.dataset.buildings.length,
+    0
+  );
+}
 
-app.get("/api/health", (_req: Request, res: Response) => {
-  res.json({ ok: true, env: process.env.NODE_ENV || "dev" });
+// Term → the version X-Snapshot-Version and /api/snapshots report for it.
+function snapshotVersions(store: SnapshotStore): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(store.terms.values()).map(({ dataset, version }) => [
+      dataset.term,
+      version,
+    ])
+  );
+}
+
+function describeVersions(store: SnapshotStore): string {
+  return (
+    Object.entries(snapshotVersions(store))
+      .map(([term, version]) => `${term || "no term"} ${version}`)
+      .join(", ") || "none"
+  );
+}
+
+// Handlers read STORE synchronously, so replacing the reference swaps every
+// term's dataset, period schedule and status options for the next request at
+// once.
+let STORE: SnapshotStore = createSnapshotStore(
+  await loadAvailabilityDatasets()
+);
+console.log(
+  `Loaded dataset (${describeVersions(STORE)}) from ${
+    STORE.source ?? "nowhere"
+  }${STORE.sourceLocation ? ` (${STORE.sourceLocation})` : ""}.`
+);
+let pendingReload: Promise<boolean> | null = null;
+// Emits "reload" after STORE is swapped; each open status stream listens.
+const datasetEvents = new EventEmitter().setMaxListeners(0);
+
+function reloadDataset(reason: string): Promise<boolean> {
+  if (pendingReload) return pendingReload;
+  pendingReload = (async () => {
+    const next = createSnapshotStore(await loadAvailabilityDatasets());
+    if (next.version === STORE.version) return false;
+    if (countBuildings(next) === 0 && countBuildings(STORE) > 0) {
+      console.warn(
+        `Dataset reload (${reason}) returned no buildings; keeping ${describeVersions(
+          STORE
+        )}.`
+      );
+      return false;
+    }
+    console.log(
+      `Dataset reloaded (${reason}) from ${next.source}: ${describeVersions(
+        STORE
+      )} -> ${describeVersions(next)}`
+    );
+    STORE = next;
+    datasetEvents.emit("reload");
+    return true;
+  })().finally(() => {
+    pendingReload = null;
+  });
+  return pendingReload;
+}
+
+// The term whose calendar dates cover today; between terms (or when that term
+// is not loaded) the most recently fetched dataset is served.
+function defaultSnapshot(store: SnapshotStore = STORE): LoadedSnapshot {
+  const today = getCurrentEasternContext()?.date;
+  const current =
+    ACADEMIC_CALENDAR && today
+      ? findTermForDate(ACADEMIC_CALENDAR, today)
+      : null;
+  const snapshots = Array.from(store.terms.values());
+  return (
+    (current && store.terms.get(current.term.toLowerCase())) ??
+    snapshots.reduce((newest, snapshot) =>
+      snapshot.dataset.fetchedAt > newest.dataset.fetchedAt ? snapshot : newest
+    )
+  );
+}
+
+// Unknown terms fall back to the default snapshot, whose schemas then reject
+// the `term` parameter with a 400.
+function snapshotFor(req: Request): LoadedSnapshot {
+  const { term } = req.query;
+  const requested =
+    typeof term === "string"
+      ? STORE.terms.get(term.trim().toLowerCase())
+      : null;
+  return requested ?? defaultSnapshot();
+}
+
+const STALE_AFTER_HOURS = Number(process.env.DATASET_STALE_HOURS ?? 48);
+
+const REFRESH_MINUTES = Number(process.env.DATASET_REFRESH_MINUTES ?? 15);
+if (Number.isFinite(REFRESH_MINUTES) && REFRESH_MINUTES > 0) {
+  setInterval(() => {
+    reloadDataset("interval").catch((err) =>
+      console.warn("Scheduled dataset reload failed:", err)
+    );
+  }, REFRESH_MINUTES * 60 * 1000).unref();
+}
+
+if (supabase && process.env.SUPABASE_REALTIME === "true") {
+  supabase
+    .channel("room-availability-snapshots")
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "room_availability_current" },
+      () => {
+        reloadDataset("realtime").catch((err) =>
+          console.warn("Realtime dataset reload failed:", err)
+        );
+      }
+    )
+    .subscribe();
+}
+
+// History is read from the source the served dataset came from, so the
+// versions it lists line up with X-Snapshot-Version.
+function historySource(): DatasetSource | null {
+  return (
+    DATASET_SOURCES.find((source) => source.kind === STORE.source) ??
+    DATASET_SOURCES[0] ??
+    null
+  );
+}
+
+app.use((req: Request, res: Response, next) => {
+  res.setHeader("X-Snapshot-Version", snapshotFor(req).version);
+  next();
 });
 
-app.get("/api/rooms/open", (req: Request, res: Response) => {
-  const { size, buildingId, buildingCode, room } = req.query;
-  const periodFilters = parsePeriodFilters(req.query.periods);
+// ------------ Routes ------------
 
-  const dataset = filterAvailability(
-    AVAILABILITY_DATASET,
+// Liveness: always 200 while the process is up; `ok` turns false and
+// `status` reports "degraded" when the data being served needs attention.
+app.get("/api/health", (_req: Request, res: Response) => {
+  const report = assessHealth(
+    Array.from(STORE.terms.values()).map((snapshot) => snapshot.dataset),
+    defaultSnapshot().dataset,
+    STORE.source !== null,
     {
-      size: size ? String(size) : null,
-      buildingId: buildingId ? String(buildingId) : null,
-      buildingCode: buildingCode ? String(buildingCode) : null,
-      roomNumber: room ? String(room) : null,
-    },
-    periodFilters
+      staleAfterHours: STALE_AFTER_HOURS,
+      calendarDay: calendarStateFor(getCurrentEasternContext()),
+    }
   );
+  res.json({
+    ok: report.status === "ok",
+    status: report.status,
+    issues: report.issues,
+    env: process.env.NODE_ENV || "dev",
+    version: PACKAGE_VERSION,
+    uptimeSeconds: Math.round(process.uptime()),
+    snapshotVersions: snapshotVersions(STORE),
+    loadedAt: STORE.loadedAt,
+    source: STORE.source,
+    sourceLocation: STORE.sourceLocation,
+    staleAfterHours: report.staleAfterHours,
+    defaultTerm: report.defaultTerm,
+    terms: report.terms,
+  });
+});
 
-  const response = applyRealtimeStatus(dataset);
-  if (!periodFilters) {
-    stripPeriods(response);
+// Readiness: 503 until a dataset with buildings has been loaded from a source,
+// so a load balancer keeps traffic away from an instance serving nothing.
+app.get("/api/ready", (_req: Request, res: Response) => {
+  if (STORE.source === null || countBuildings(STORE) === 0) {
+    return res
+      .status(503)
+      .json({ ready: false, error: "No dataset has been loaded yet." });
   }
-
   res.json({
-    fetchedAt: response.fetchedAt,
-    term: response.term,
-    classSizes: response.classSizes,
-    buildings: response.buildings,
-    periodStartTimes: PERIOD_START_TIMES,
+    ready: true,
+    snapshotVersions: snapshotVersions(STORE),
+    source: STORE.source,
   });
 });
 
-app.get("/api/rooms/:id", (req: Request, res: Response) => {
-  const id = req.params.id.toUpperCase();
-  const match = id.match(/^([A-Z]{2,4})[-_]?([0-9A-Z]{1,4})$/);
-  if (!match) {
-    return res.status(400).json({ error: "Invalid room identifier format." });
+app.get("/api/openapi.json", (_req: Request, res: Response) => {
+  const terms = Array.from(STORE.terms.values())
+    .map((snapshot) => snapshot.dataset.term)
+    .filter(Boolean);
+  res.json(
+    buildOpenApiDocument(defaultSnapshot().schemas, {
+      title: "FreeRooms@UF API",
+      version: PACKAGE_VERSION,
+      description: `Live study-room availability for UF, serving ${
+        terms.length ? terms.join(", ") : "the current term"
+      }.`,
+    })
+  );
+});
+
+app.get("/api/terms", (_req: Request, res: Response) => {
+  const fallback = defaultSnapshot();
+  const terms = Array.from(STORE.terms.values())
+    .map(({ dataset, version }) => {
+      const calendarTerm = findTermByName(ACADEMIC_CALENDAR, dataset.term);
+      return {
+        term: dataset.term,
+        fetchedAt: dataset.fetchedAt,
+        start: calendarTerm?.start ?? null,
+        end: calendarTerm?.end ?? null,
+        isDefault: dataset === fallback.dataset,
+        buildingCount: dataset.buildings.length,
+        roomCount: dataset.buildings.reduce(
+          (total, building) => total + building.rooms.length,
+          0
+        ),
+        snapshotVersion: version,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.start ?? a.fetchedAt).localeCompare(b.start ?? b.fetchedAt) ||
+        a.term.localeCompare(b.term)
+    );
+
+  res.json({ defaultTerm: fallback.dataset.term, terms });
+});
+
+// Swagger UI is served from the installed swagger-ui-dist package, whose
+// version package.json pins exactly.
+const SWAGGER_UI_DIR = path.dirname(
+  createRequire(import.meta.url).resolve("swagger-ui-dist/package.json")
+);
+app.use("/api/docs/assets", express.static(SWAGGER_UI_DIR, { index: false }));
+
+app.get("/api/docs", (_req: Request, res: Response) => {
+  res
+    .type("html")
+    .send(
+      renderDocsPage("/api/openapi.json", "FreeRooms API", "/api/docs/assets")
+    );
+});
+
+app.post("/api/admin/reload", async (req: Request, res: Response) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(503).json({ error: "Admin endpoints are disabled." });
+  }
+  if (req.get("authorization") !== `Bearer ${adminToken}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  const previousVersions = snapshotVersions(STORE);
+  try {
+    const reloaded = await reloadDataset("admin");
+    res.setHeader("X-Snapshot-Version", snapshotFor(req).version);
+    res.json({
+      reloaded,
+      previousVersions,
+      snapshotVersions: snapshotVersions(STORE),
+      loadedAt: STORE.loadedAt,
+      source: STORE.source,
+      terms: Array.from(STORE.terms.values()).map(({ dataset }) => ({
+        term: dataset.term,
+        fetchedAt: dataset.fetchedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Admin dataset reload failed:", error);
+    res.status(500).json({ error: "Dataset reload failed." });
+  }
+});
+
+app.get("/api/snapshots", async (req: Request, res: Response) => {
+  const input = validateRequest(snapshotFor(req).schemas.snapshots, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const source = historySource();
+  if (!source) {
+    return res.status(503).json({ error: "No dataset source is configured." });
   }
-  const [, buildingCode, roomNumberRaw] = match;
-  const roomNumber = roomNumberRaw.padStart(4, "0");
 
-  const dataset = filterAvailability(
-    AVAILABILITY_DATASET,
+  try {
+    const versions = await source.listVersions(input.query);
+    const served = new Set(
+      Array.from(STORE.terms.values()).map((snapshot) => snapshot.version)
+    );
+    res.json({
+      source: source.kind,
+      location: source.location,
+      snapshots: versions.map((version) => ({
+        ...version,
+        isServed: served.has(version.version),
+      })),
+    });
+  } catch (error) {
+    console.error("Listing snapshots failed:", error);
+    res.status(500).json({ error: "Unable to list snapshots." });
+  }
+});
+
+app.get("/api/snapshots/diff", async (req: Request, res: Response) => {
+  const input = validateRequest(snapshotFor(req).schemas.snapshotsDiff, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const source = historySource();
+  if (!source) {
+    return res.status(503).json({ error: "No dataset source is configured." });
+  }
+
+  try {
+    const from = await source.loadVersion(input.query.from);
+    if (!from) {
+      return res
+        .status(404)
+        .json({ error: `Snapshot ${input.query.from} not found` });
+    }
+    const toVersion =
+      input.query.to ??
+      (await source.listVersions({ term: from.term })).find(
+        (version) => version.isCurrent
+      )?.version;
+    const to = toVersion ? await source.loadVersion(toVersion) : null;
+    if (!toVersion || !to) {
+      return res.status(404).json({
+        error: toVersion
+          ? `Snapshot ${toVersion} not found`
+          : `No current snapshot for ${from.term}`,
+      });
+    }
+
+    res.json({
+      source: source.kind,
+      from: {
+        version: input.query.from,
+        term: from.term,
+        fetchedAt: from.fetchedAt,
+      },
+      to: { version: toVersion, term: to.term, fetchedAt: to.fetchedAt },
+      ...diffDatasets(from, to),
+    });
+  } catch (error) {
+    console.error("Snapshot diff failed:", error);
+    res.status(500).json({ error: "Unable to diff snapshots." });
+  }
+});
+
+app.get("/api/rooms/open", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.roomsOpen, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const { size, buildingId, buildingCode, room } = input.query;
+  const { amenities, minCapacity, maxCapacity } = input.query;
+  const periodMatch = createPeriodMatch(input.query);
+  const context = parseTimeQuery(input.query);
+
+  const matchingRooms = queryRooms(
+    snapshot.index,
     {
+      size,
+      buildingId,
       buildingCode,
-      roomNumber,
+      roomNumber: room,
+      amenities,
+      minCapacity,
+      maxCapacity,
     },
-    null
+    periodMatch,
+    context
   );
-  applyRealtimeStatus(dataset);
-  stripPeriods(dataset);
 
-  const building = dataset.buildings[0];
+  const { sort, near, radius, limit, cursor, fields, shape } = input.query;
+  const proximity = near ? locateRooms(matchingRooms, near, radius) : null;
+  const { rooms, page } = paginateRooms(proximity?.rooms ?? matchingRooms, {
+    sort: sort ?? (near ? "distance" : null),
+    origin: near,
+    limit,
+    cursor,
+  });
+  const selected = rooms.map((entry) => selectRoomFields(entry, fields));
+
+  // Facets are counted before the building and capacity filters so each one
+  // can leave its own filter out (see computeRoomFacets).
+  const listFacetRooms = () => {
+    const unscoped = queryRooms(
+      snapshot.index,
+      { size, roomNumber: room, amenities },
+      periodMatch,
+      context
+    );
+    return near ? locateRooms(unscoped, near, radius).rooms : unscoped;
+  };
+  const facets = input.query.facets
+    ? computeRoomFacets(
+        listFacetRooms(),
+        input.query.facets,
+        { buildingId, buildingCode, minCapacity, maxCapacity },
+        context
+      )
+    : null;
+
+  res.json({
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    classSizes: snapshot.dataset.classSizes,
+    evaluatedAt: context,
+    calendar: calendarStateFor(context),
+    ...(shape === "flat"
+      ? { rooms: selected }
+      : { buildings: nestRooms(selected) }),
+    page,
+    ...(periodMatch
+      ? {
+          periodMatch: {
+            days: periodMatch.days,
+            periods: periodMatch.periods
+              ? Array.from(periodMatch.periods)
+              : null,
+            match: periodMatch.match,
+          },
+        }
+      : {}),
+    ...(facets ? { facets } : {}),
+    ...(proximity
+      ? {
+          near,
+          radiusMeters: radius ?? null,
+          unlocatedBuildings: proximity.unlocatedBuildings,
+        }
+      : {}),
+    periodStartTimes: getPeriodStartTimes(snapshot.schedule),
+    periodSchedule: describePeriodSchedule(snapshot.schedule),
+  });
+});
+
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
+app.get("/api/rooms/stream", (req: Request, res: Response) => {
+  const input = validateRequest(snapshotFor(req).schemas.roomsStream, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const {
+    size,
+    buildingId,
+    buildingCode,
+    room,
+    amenities,
+    minCapacity,
+    maxCapacity,
+  } = input.query;
+  const periodMatch = createPeriodMatch(input.query);
+
+  // Re-resolves the term on every evaluation so a reload is picked up.
+  const evaluate = () => {
+    const snapshot = snapshotFor(req);
+    const context = getCurrentEasternContext();
+    const rooms = queryRooms(
+      snapshot.index,
+      {
+        size,
+        buildingId,
+        buildingCode,
+        roomNumber: room,
+        amenities,
+        minCapacity,
+        maxCapacity,
+      },
+      periodMatch,
+      context
+    );
+    return {
+      snapshot,
+      context,
+      statuses: summarizeRoomStatuses(rooms),
+      header: {
+        term: snapshot.dataset.term,
+        snapshotVersion: snapshot.version,
+        evaluatedAt: context,
+        calendar: calendarStateFor(context),
+      },
+    };
+  };
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  let current = evaluate();
+  send("snapshot", {
+    ...current.header,
+    rooms: Array.from(current.statuses.values()),
+  });
+
+  const push = (reason: "period" | "dataset") => {
+    const next = evaluate();
+    const { changed, removed } = diffRoomStatuses(
+      current.statuses,
+      next.statuses
+    );
+    const versionChanged = next.snapshot.version !== current.snapshot.version;
+    current = next;
+    if (changed.length === 0 && removed.length === 0 && !versionChanged) {
+      return;
+    }
+    send("status", { ...next.header, reason, changed, removed });
+  };
+
+  let boundaryTimer: NodeJS.Timeout;
+  const scheduleBoundary = () => {
+    // One second past the boundary, so the new period is already in effect.
+    const delay = current.context
+      ? msUntilNextBoundary(
+          boundariesFor(current.snapshot.index, current.context),
+          current.context
+        ) + 1000
+      : 60 * 1000;
+    boundaryTimer = setTimeout(() => {
+      push("period");
+      scheduleBoundary();
+    }, delay);
+  };
+  scheduleBoundary();
+
+  const onReload = () => push("dataset");
+  datasetEvents.on("reload", onReload);
+  const heartbeat = setInterval(
+    () => res.write(": keep-alive\n\n"),
+    STREAM_HEARTBEAT_MS
+  );
+
+  req.on("close", () => {
+    clearTimeout(boundaryTimer);
+    clearInterval(heartbeat);
+    datasetEvents.off("reload", onReload);
+  });
+});
+
+app.get("/api/rooms/:id", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.room, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const { buildingCode, roomNumber } = input.params.id;
+  const context = parseTimeQuery(input.query);
+
+  const [building] = nestRooms(
+    queryRooms(snapshot.index, { buildingCode, roomNumber }, null, context)
+  );
   const room = building?.rooms[0];
 
   if (!building || !room) {
@@ -238,14 +796,116 @@ app.get("/api/rooms/:id", (req: Request, res: Response) => {
   res.json({
     building,
     room,
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    evaluatedAt: context,
+    calendar: calendarStateFor(context),
+    periodStartTimes: getPeriodStartTimes(snapshot.schedule),
+    periodSchedule: describePeriodSchedule(snapshot.schedule),
+  });
+});
+
+app.get("/api/rooms/:id/schedule", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.roomSchedule, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const roomId = input.params.id;
+  const size = input.query.size ?? null;
+  const dataset = filterAvailability(snapshot.dataset, roomId, null);
+  const building = dataset.buildings[0];
+  const room = building?.rooms[0];
+
+  if (!building || !room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+  if (size && !room.availability[size]) {
+    return res
+      .status(404)
+      .json({ error: `Room has no STARS data for size ${size}.` });
+  }
+
+  const schedule = buildRoomSchedule(building, room, size, snapshot.options);
+
+  // The grid is the availability; the per-size records are left out.
+  res.json({
+    building: {
+      id: building.id,
+      code: building.code,
+      name: building.name,
+      campusId: building.campusId,
+      lat: building.lat,
+      lng: building.lng,
+    },
+    room: {
+      number: room.number,
+      metadata: room.metadata,
+      amenities: room.amenities,
+    },
     fetchedAt: dataset.fetchedAt,
     term: dataset.term,
-    periodStartTimes: PERIOD_START_TIMES,
+    schedule,
   });
 });
 
-app.get("/api/buildings", (_req: Request, res: Response) => {
-  const buildings = AVAILABILITY_DATASET.buildings.map((building) => ({
+app.get("/api/rooms/:id/calendar.ics", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.roomCalendar, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const roomId = input.params.id;
+  const { day, minLength: minMinutes = 0 } = input.query;
+
+  const dataset = filterAvailability(snapshot.dataset, roomId, null);
+  const building = dataset.buildings[0];
+  const room = building?.rooms[0];
+
+  if (!building || !room) {
+    return res.status(404).json({ error: "Room not found" });
+  }
+
+  const today = getCurrentEasternContext()?.date;
+  const term =
+    findTermByName(ACADEMIC_CALENDAR, dataset.term) ??
+    (ACADEMIC_CALENDAR && today
+      ? findTermForDate(ACADEMIC_CALENDAR, today)
+      : null);
+  const ics = buildRoomCalendar(building, room, {
+    ...snapshot.options,
+    days: day ? [day] : null,
+    minMinutes,
+    term,
+  });
+
+  res
+    .type("text/calendar; charset=utf-8")
+    .setHeader(
+      "Content-Disposition",
+      `inline; filename="${roomId.buildingCode}-${roomId.roomNumber}.ics"`
+    )
+    .send(ics);
+});
+
+app.get("/api/buildings", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.buildings, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const context = parseTimeQuery(input.query);
+
+  const openRoomCounts = new Map<string, number>();
+  queryRooms(snapshot.index, {}, null, context).forEach((room) => {
+    const isOpen = Object.values(room.availability ?? {}).some(
+      (record) => record.isAvailableNow
+    );
+    if (isOpen) {
+      openRoomCounts.set(
+        room.building.id,
+        (openRoomCounts.get(room.building.id) ?? 0) + 1
+      );
+    }
+  });
+
+  const calendar = calendarStateFor(context);
+
+  const buildings = snapshot.dataset.buildings.map((building) => ({
     id: building.id,
     code: building.code,
     name: building.name,
@@ -253,55 +913,215 @@ app.get("/api/buildings", (_req: Request, res: Response) => {
     lat: building.lat,
     lng: building.lng,
     roomCount: building.rooms.length,
+    openRoomCount: openRoomCounts.get(building.id) ?? 0,
+    ...describeBuildingHours(building, context, calendar),
   }));
 
+  const { near, radius } = input.query;
+  if (!near) {
+    return res.json({
+      fetchedAt: snapshot.dataset.fetchedAt,
+      term: snapshot.dataset.term,
+      evaluatedAt: context,
+      calendar,
+      buildings,
+    });
+  }
+
+  const { located, unlocated } = rankByDistance(buildings, near, radius);
   res.json({
-    fetchedAt: AVAILABILITY_DATASET.fetchedAt,
-    term: AVAILABILITY_DATASET.term,
-    buildings,
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    evaluatedAt: context,
+    calendar,
+    buildings: radius ? located : [...located, ...unlocated],
+    near,
+    radiusMeters: radius ?? null,
+    unlocatedBuildings: unlocated.map(
+      ({ id, code, name, campusId, lat, lng }) => ({
+        id,
+        code,
+        name,
+        campusId,
+        lat,
+        lng,
+      })
+    ),
   });
 });
 
-app.listen(PORT, () => {
-  console.log(`FreeRooms backend listening on http://localhost:${PORT}`);
+app.get("/api/buildings/:idOrCode", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.building, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const { idOrCode } = input.params;
+
+  const match = snapshot.dataset.buildings.find(
+    (building) =>
+      building.id.toUpperCase() === idOrCode ||
+      building.code?.toUpperCase() === idOrCode
+  );
+  if (!match) {
+    return res.status(404).json({ error: "Building not found" });
+  }
+
+  const context = parseTimeQuery(input.query);
+  const calendar = calendarStateFor(context);
+  const dataset = applyRealtimeStatus(
+    filterAvailability(snapshot.dataset, { buildingId: match.id }, null),
+    context,
+    snapshot.options
+  );
+  const { rooms, aggregates } = describeBuilding(
+    dataset.buildings[0] ?? { ...match, rooms: [] },
+    context
+  );
+
+  res.json({
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    evaluatedAt: context,
+    calendar,
+    building: {
+      id: match.id,
+      code: match.code,
+      name: match.name,
+      campusId: match.campusId,
+      lat: match.lat,
+      lng: match.lng,
+      ...describeBuildingHours(match, context, calendar),
+    },
+    ...aggregates,
+    rooms,
+  });
 });
 
-function cloneAvailabilityRecord(
-  record: SizeAvailability | undefined,
-  periodFilters?: Set<string> | null
-): SizeAvailability | null {
-  if (!record) return null;
-  const srcPeriods = record.periods ?? [];
-  let periods = srcPeriods;
-  if (periodFilters) {
-    periods = srcPeriods.filter((entry) => periodFilters.has(entry.period));
-    if (periods.length === 0) return null;
+app.get("/api/search/slots", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.searchSlots, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const { duration, day, after, before, minCapacity, amenities, buildingCode } =
+    input.query;
+
+  const context = parseTimeQuery({ day });
+  if (!context) {
+    return res.status(500).json({ error: "Unable to resolve search date." });
   }
 
-  return {
-    periods: periods.map((entry) => ({ ...entry })),
-    isAvailableNow: record.isAvailableNow,
-    nextAvailable: record.nextAvailable,
+  const query = {
+    durationMinutes: duration,
+    dayCode: context.dayCode,
+    date: context.date,
+    afterMinutes: after ?? (day ? 0 : context.minutes),
+    beforeMinutes: before ?? 24 * 60,
+    minCapacity: minCapacity ?? null,
+    amenities: amenities ?? [],
+    buildingCode: buildingCode ?? null,
+  };
+  const results = findFreeSlots(snapshot.dataset, query, snapshot.options);
+
+  res.json({
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    query,
+    calendar: calendarStateFor(context),
+    count: results.length,
+    results,
+  });
+});
+
+app.get("/api/search/recurring", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.searchRecurring, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const { days, periods, minCapacity, amenities, buildingCode } = input.query;
+
+  const query = {
+    days,
+    periods,
+    minCapacity: minCapacity ?? null,
+    amenities: amenities ?? [],
+    buildingCode: buildingCode ?? null,
+  };
+
+  const { matches, nearMisses } = findRecurringSlots(
+    snapshot.dataset,
+    query,
+    snapshot.options
+  );
+
+  res.json({
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    query,
+    matches,
+    nearMisses,
+  });
+});
+
+app.get("/api/search/group", (req: Request, res: Response) => {
+  const snapshot = snapshotFor(req);
+  const input = validateRequest(snapshot.schemas.searchGroup, req);
+  if (!input.success) return res.status(400).json(input.body);
+  const { count, day, start, end, minCapacity, amenities, buildingCode } =
+    input.query;
+
+  const context = parseTimeQuery({ day });
+  if (!context) {
+    return res.status(500).json({ error: "Unable to resolve search date." });
+  }
+
+  const query = {
+    roomCount: count,
+    dayCode: context.dayCode,
+    date: context.date,
+    startMinutes: start,
+    endMinutes: end,
+    minCapacity: minCapacity ?? null,
+    amenities: amenities ?? [],
+    buildingCode: buildingCode ?? null,
   };
+  const buildings = findGroupBookings(
+    snapshot.dataset,
+    query,
+    snapshot.options
+  );
+
+  res.json({
+    fetchedAt: snapshot.dataset.fetchedAt,
+    term: snapshot.dataset.term,
+    query,
+    calendar: calendarStateFor(context),
+    count: buildings.length,
+    buildings,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`FreeRooms backend listening on http://localhost:${PORT}`);
+});
+
+function parseTimeQuery(query: TimeQuery): TimeContext | null {
+  return resolveTimeContext(query) ?? getCurrentEasternContext();
 }
 
-function parsePeriodFilters(value: unknown): Set<string> | null {
-  if (!value) return null;
-  const raw = Array.isArray(value) ? value : String(value).split(",");
-  const normalized = raw
-    .map((item) => String(item).trim().toUpperCase())
-    .filter(Boolean);
-  return normalized.length ? new Set(normalized) : null;
+function calendarStateFor(
+  context: TimeContext | null
+): CalendarDayState | null {
+  return context ? resolveCalendarDay(ACADEMIC_CALENDAR, context.date) : null;
 }
 
-function stripPeriods(dataset: AvailabilityDataset) {
-  dataset.buildings.forEach((building) => {
-    building.rooms.forEach((room) => {
-      Object.values(room.availability).forEach((record) => {
-        if (record.periods) {
-          delete record.periods;
-        }
-      });
-    });
-  });
+function describeBuildingHours(
+  building: BuildingAvailability,
+  context: TimeContext | null,
+  calendar: CalendarDayState | null
+) {
+  const hours = resolveBuildingHours(BUILDING_HOURS, building);
+  return {
+    hours,
+    isOpenNow:
+      hours && context && calendar
+        ? isOpenAt(hours, context.dayCode, calendar.mode, context.minutes)
+        : null,
+  };
 }
@@ -0,0 +1,179 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyRealtimeStatus,
+  buildFreeBlocks,
+  getEasternContext,
+  resolveTimeContext,
+  type AvailabilityDataset,
+  type PeriodEntry,
+  type SizeAvailability,
+} from "../lib/availability.js";
+
+// Start and end minutes of the periods used below.
+const PERIOD_MINUTES: Record<string, [number, number]> = {
+  "1": [445, 495],
+  "2": [510, 560],
+  "4": [640, 690],
+  "5": [705, 755],
+  "6": [770, 820],
+  "7": [835, 885],
+};
+
+function entry(day: string, period: string): PeriodEntry {
+  const [startMinutes, endMinutes] = PERIOD_MINUTES[period];
+  return {
+    day,
+    period,
+    startTime: String(startMinutes),
+    endTime: String(endMinutes),
+    startMinutes,
+    endMinutes,
+  };
+}
+
+// The status of a one-room dataset free during `periods`, at `iso`.
+function statusAt(periods: PeriodEntry[], iso: string): SizeAvailability {
+  const dataset: AvailabilityDataset = {
+    fetchedAt: "2025-10-20T00:00:00Z",
+    term: "Fall 2025",
+    classSizes: ["10"],
+    buildings: [
+      {
+        id: "B1",
+        code: "MAT",
+        name: "Little Hall",
+        campusId: null,
+        lat: null,
+        lng: null,
+        rooms: [
+          {
+            number: "0101",
+            amenities: [],
+            availability: { "10": { periods } },
+          },
+        ],
+      },
+    ],
+  };
+  const context = getEasternContext(new Date(iso));
+  assert.ok(context);
+  return applyRealtimeStatus(dataset, context).buildings[0].rooms[0]
+    .availability["10"];
+}
+
+// Wednesday 2025-10-22, 10:50 AM Eastern: ten minutes into period 4.
+const WEDNESDAY_PERIOD_4 = "2025-10-22T10:50:00-04:00";
+
+describe("buildFreeBlocks", () => {
+  it("merges periods separated by a passing period", () => {
+    const blocks = buildFreeBlocks([
+      entry("W", "5"),
+      entry("W", "4"),
+      entry("W", "7"),
+    ]);
+    assert.deepEqual(
+      blocks.map(({ day, periods, startMinutes, endMinutes }) => ({
+        day,
+        periods,
+        startMinutes,
+        endMinutes,
+      })),
+      [
+        { day: "W", periods: ["4", "5"], startMinutes: 640, endMinutes: 755 },
+        { day: "W", periods: ["7"], startMinutes: 835, endMinutes: 885 },
+      ]
+    );
+  });
+
+  it("keeps the same period on different days apart", () => {
+    const blocks = buildFreeBlocks([entry("W", "4"), entry("M", "4")]);
+    assert.deepEqual(
+      blocks.map((block) => block.day),
+      ["M", "W"]
+    );
+  });
+});
+
+describe("applyRealtimeStatus", () => {
+  it("reports a merged block as one stretch of free time", () => {
+    const status = statusAt(
+      [entry("W", "4"), entry("W", "5")],
+      WEDNESDAY_PERIOD_4
+    );
+    assert.equal(status.isAvailableNow, true);
+    assert.equal(status.openUntil, "12:35 PM");
+    assert.equal(status.freeMinutesRemaining, 105);
+    assert.equal(status.nextBusyAt, "12:50 PM");
+  });
+
+  it("points at the next block when the room is busy now", () => {
+    const status = statusAt(
+      [entry("W", "6"), entry("F", "2")],
+      WEDNESDAY_PERIOD_4
+    );
+    assert.equal(status.isAvailableNow, false);
+    assert.equal(status.freeMinutesRemaining, null);
+    assert.deepEqual(status.nextAvailable, {
+      day: "W",
+      dayLabel: "Wednesday",
+      date: "2025-10-22",
+      period: "6",
+      startTime: "12:50 PM",
+      endTime: "1:40 PM",
+    });
+  });
+
+  it("looks ahead to a later day once today's blocks have passed", () => {
+    const status = statusAt(
+      [entry("W", "1"), entry("F", "2")],
+      WEDNESDAY_PERIOD_4
+    );
+    assert.equal(status.isAvailableNow, false);
+    assert.equal(status.nextAvailable?.date, "2025-10-24");
+    assert.equal(status.nextAvailable?.period, "2");
+  });
+});
+
+describe("resolveTimeContext", () => {
+  const now = new Date(WEDNESDAY_PERIOD_4);
+
+  it("returns null when no instant was requested", () => {
+    assert.equal(resolveTimeContext({}, now), null);
+  });
+
+  it("lets `at` win over `day` and `time`", () => {
+    assert.deepEqual(
+      resolveTimeContext(
+        { at: "2025-10-20T09:00:00-04:00", day: "F", time: "2pm" },
+        now
+      ),
+      { dayCode: "M", minutes: 540, date: "2025-10-20" }
+    );
+  });
+
+  it("fills `day` and `time` forward from now", () => {
+    assert.deepEqual(resolveTimeContext({ day: "friday", time: "2pm" }, now), {
+      dayCode: "F",
+      minutes: 840,
+      date: "2025-10-24",
+    });
+    assert.deepEqual(resolveTimeContext({ day: "M" }, now), {
+      dayCode: "M",
+      minutes: 650,
+      date: "2025-10-27",
+    });
+  });
+
+  it("throws a RangeError on values it cannot read", () => {
+    assert.throws(
+      () => resolveTimeContext({ day: "someday" }, now),
+      RangeError
+    );
+    assert.throws(() => resolveTimeContext({ time: "25:00" }, now), RangeError);
+    assert.throws(
+      () => resolveTimeContext({ at: "yesterday" }, now),
+      RangeError
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractAmenitySlugs } from "../lib/amenities.js";
+import {
+  applyRealtimeStatus,
+  getEasternContext,
+  PERIOD_DEFINITIONS,
+  type BuildingAvailability,
+  type PeriodEntry,
+  type RoomAvailability,
+} from "../lib/availability.js";
+import { describeBuilding } from "../lib/buildingDetail.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+
+function entry(day: string, period: string): PeriodEntry {
+  const { start, end } = PERIOD_DEFINITIONS[period];
+  return {
+    day,
+    period,
+    startTime: formatMinutes12(toMinutes(start)),
+    endTime: formatMinutes12(toMinutes(end)),
+    startMinutes: toMinutes(start),
+    endMinutes: toMinutes(end),
+  };
+}
+
+function room(
+  number: string,
+  capacity: number,
+  featureFlags: Record<string, boolean>,
+  periods: PeriodEntry[]
+): RoomAvailability {
+  return {
+    number,
+    amenities: extractAmenitySlugs(featureFlags),
+    metadata: {
+      capacity,
+      photo: null,
+      gallery: [],
+      featureFlags,
+      detailUrl: `https://example.edu/rooms/${number}`,
+    },
+    availability: { "10": { periods } },
+  };
+}
+
+const BUILDING: BuildingAvailability = {
+  id: "B1",
+  code: "MAT",
+  name: "Little Hall",
+  campusId: "0",
+  lat: 29.64,
+  lng: -82.34,
+  rooms: [
+    room("0110", 60, { projector: true }, [entry("W", "4")]),
+    room("0101", 30, { whiteboard: true }, [entry("W", "4"), entry("W", "5")]),
+    room("0102", 20, { ada: true }, [entry("W", "7")]),
+  ],
+};
+
+function describeAt(iso: string, building = BUILDING) {
+  const context = getEasternContext(new Date(iso));
+  const dataset = applyRealtimeStatus(
+    {
+      fetchedAt: "2025-10-02T12:00:00Z",
+      term: "Fall 2025",
+      classSizes: ["10"],
+      buildings: [building],
+    },
+    context,
+    { schedule: PERIOD_DEFINITIONS }
+  );
+  return describeBuilding(dataset.buildings[0], context);
+}
+
+describe("describeBuilding", () => {
+  it("counts rooms open now and later today", () => {
+    // Wednesday 10:50 AM Eastern, during period 4.
+    const { rooms, aggregates } = describeAt("2025-10-22T10:50:00-04:00");
+    assert.deepEqual(
+      rooms.map((item) => item.number),
+      ["0101", "0102", "0110"]
+    );
+    assert.equal(aggregates.roomCount, 3);
+    assert.equal(aggregates.openNowCount, 2);
+    assert.equal(aggregates.openLaterTodayCount, 1);
+    assert.equal(rooms[1].isAvailableLaterToday, true);
+    assert.deepEqual(aggregates.largestOpenRoom, {
+      id: "MAT-0110",
+      number: "0110",
+      capacity: 60,
+      openUntil: "11:30 AM",
+    });
+    assert.equal(aggregates.nextOpening, null);
+  });
+
+  it("lists the amenities offered across the building in display order", () => {
+    const { aggregates } = describeAt("2025-10-22T10:50:00-04:00");
+    assert.deepEqual(aggregates.amenities, ["ada", "chalkboard", "projector"]);
+  });
+
+  it("reports the earliest upcoming opening when nothing is free", () => {
+    // Wednesday 8:00 AM Eastern, before any free period.
+    const { aggregates } = describeAt("2025-10-22T08:00:00-04:00");
+    assert.equal(aggregates.openNowCount, 0);
+    assert.equal(aggregates.largestOpenRoom, null);
+    assert.equal(aggregates.nextOpening?.roomId, "MAT-0101");
+    assert.equal(aggregates.nextOpening?.period, "4");
+    assert.equal(aggregates.nextOpening?.date, "2025-10-22");
+  });
+
+  it("handles a building without rooms", () => {
+    const { rooms, aggregates } = describeAt("2025-10-22T10:50:00-04:00", {
+      ...BUILDING,
+      rooms: [],
+    });
+    assert.deepEqual(rooms, []);
+    assert.equal(aggregates.roomCount, 0);
+    assert.equal(aggregates.nextOpening, null);
+  });
+});
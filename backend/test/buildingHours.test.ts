@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyRealtimeStatus,
+  getEasternContext,
+  PERIOD_DEFINITIONS,
+  type AvailabilityDataset,
+} from "../lib/availability.js";
+import {
+  isOpenAt,
+  openWindowForDay,
+  resolveBuildingHours,
+  type BuildingHoursConfig,
+} from "../lib/buildingHours.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+
+const CONFIG: BuildingHoursConfig = {
+  closingBufferMinutes: 10,
+  default: {
+    weekday: { open: "07:00", close: "22:30" },
+    weekend: null,
+    holiday: null,
+  },
+  buildings: {
+    B800000007: { weekend: { open: "10:00", close: "18:00" } },
+    MAT: { weekday: { open: "07:00", close: "21:00" } },
+  },
+};
+
+const MAT = { id: "B1", code: "MAT" };
+
+describe("resolveBuildingHours", () => {
+  it("overrides the default per kind of day", () => {
+    assert.deepEqual(resolveBuildingHours(CONFIG, MAT), {
+      weekday: { open: "07:00", close: "21:00" },
+      weekend: null,
+      holiday: null,
+      closingBufferMinutes: 10,
+    });
+  });
+
+  it("matches the building ID before the campus code", () => {
+    const hours = resolveBuildingHours(CONFIG, {
+      id: "B800000007",
+      code: "MAT",
+    });
+    assert.deepEqual(hours?.weekend, { open: "10:00", close: "18:00" });
+    assert.deepEqual(hours?.weekday, { open: "07:00", close: "22:30" });
+  });
+
+  it("returns null when nothing applies", () => {
+    assert.equal(resolveBuildingHours(null, MAT), null);
+    assert.equal(
+      resolveBuildingHours(
+        { ...CONFIG, default: undefined },
+        { id: "X", code: null }
+      ),
+      null
+    );
+  });
+});
+
+describe("building opening windows", () => {
+  const hours = resolveBuildingHours(CONFIG, MAT);
+  assert.ok(hours);
+
+  it("ends the usable window before lock-up", () => {
+    assert.deepEqual(openWindowForDay(hours, "W", "classes"), {
+      startMinutes: 420,
+      endMinutes: 1250,
+    });
+  });
+
+  it("uses holiday hours on closed days only", () => {
+    assert.equal(openWindowForDay(hours, "W", "closed"), null);
+    assert.notEqual(openWindowForDay(hours, "W", "open"), null);
+    assert.notEqual(openWindowForDay(hours, "W", "finals"), null);
+    assert.equal(openWindowForDay(hours, "S", "classes"), null);
+  });
+
+  it("reports whether the doors are open at a minute", () => {
+    assert.equal(isOpenAt(hours, "W", "classes", toMinutes("20:55")), true);
+    assert.equal(isOpenAt(hours, "W", "classes", toMinutes("21:00")), false);
+    assert.equal(isOpenAt(hours, "W", "closed", toMinutes("12:00")), false);
+  });
+});
+
+describe("room status clipped to building hours", () => {
+  it("ends a late free block at the building's usable close", () => {
+    const { start, end } = PERIOD_DEFINITIONS.E2;
+    const periods = [
+      {
+        day: "W",
+        period: "E2",
+        startTime: formatMinutes12(toMinutes(start)),
+        endTime: formatMinutes12(toMinutes(end)),
+        startMinutes: toMinutes(start),
+        endMinutes: toMinutes(end),
+      },
+    ];
+    const dataset: AvailabilityDataset = {
+      fetchedAt: "2025-10-20T00:00:00Z",
+      term: "Fall 2025",
+      classSizes: ["10"],
+      buildings: [
+        {
+          ...MAT,
+          name: "Little Hall",
+          campusId: null,
+          lat: null,
+          lng: null,
+          rooms: [
+            {
+              number: "0101",
+              amenities: [],
+              availability: { "10": { periods } },
+            },
+          ],
+        },
+      ],
+    };
+    // Wednesday 2025-10-22, 8:30 PM Eastern.
+    const context = getEasternContext(new Date("2025-10-22T20:30:00-04:00"));
+    assert.ok(context);
+    const status = applyRealtimeStatus(dataset, context, {
+      buildingHours: CONFIG,
+    }).buildings[0].rooms[0].availability["10"];
+    assert.equal(status.isAvailableNow, true);
+    assert.equal(status.openUntil, "8:50 PM");
+  });
+});
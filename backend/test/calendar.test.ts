@@ -0,0 +1,144 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  applyRealtimeStatus,
+  getEasternContext,
+  type AvailabilityDataset,
+  type PeriodEntry,
+  type SizeAvailability,
+} from "../lib/availability.js";
+import {
+  calendarCovers,
+  resolveCalendarDay,
+  type AcademicCalendar,
+} from "../lib/calendar.js";
+
+const CALENDAR: AcademicCalendar = {
+  betweenTerms: { mode: "open", label: "No classes scheduled" },
+  terms: [
+    {
+      term: "Fall 2025",
+      start: "2025-08-21",
+      end: "2025-12-12",
+      finals: { start: "2025-12-06", end: "2025-12-12" },
+      exceptions: [
+        { start: "2025-11-11", mode: "closed", label: "Veterans Day" },
+        {
+          start: "2025-11-26",
+          end: "2025-11-29",
+          mode: "closed",
+          label: "Thanksgiving break",
+        },
+      ],
+    },
+    {
+      term: "Spring 2026",
+      start: "2026-01-12",
+      end: "2026-05-01",
+      finals: { start: "2026-04-25", end: "2026-05-01" },
+    },
+  ],
+};
+
+// Period 4 (10:40-11:30 AM) on Monday and Wednesday.
+const PERIODS: PeriodEntry[] = ["M", "W"].map((day) => ({
+  day,
+  period: "4",
+  startTime: "10:40 AM",
+  endTime: "11:30 AM",
+  startMinutes: 640,
+  endMinutes: 690,
+}));
+
+function statusAt(iso: string): SizeAvailability {
+  const dataset: AvailabilityDataset = {
+    fetchedAt: "2025-10-20T00:00:00Z",
+    term: "Fall 2025",
+    classSizes: ["10"],
+    buildings: [
+      {
+        id: "B1",
+        code: "MAT",
+        name: "Little Hall",
+        campusId: null,
+        lat: null,
+        lng: null,
+        rooms: [
+          {
+            number: "0101",
+            amenities: [],
+            availability: { "10": { periods: PERIODS } },
+          },
+        ],
+      },
+    ],
+  };
+  const context = getEasternContext(new Date(iso));
+  assert.ok(context);
+  return applyRealtimeStatus(dataset, context, { calendar: CALENDAR })
+    .buildings[0].rooms[0].availability["10"];
+}
+
+describe("resolveCalendarDay", () => {
+  it("follows the weekly schedule on a regular class day", () => {
+    const state = resolveCalendarDay(CALENDAR, "2025-10-22");
+    assert.equal(state.mode, "classes");
+    assert.equal(state.term, "Fall 2025");
+  });
+
+  it("lets an exception win over the term", () => {
+    const state = resolveCalendarDay(CALENDAR, "2025-11-11");
+    assert.equal(state.mode, "closed");
+    assert.equal(state.label, "Veterans Day");
+  });
+
+  it("reports finals days as their own mode", () => {
+    const state = resolveCalendarDay(CALENDAR, "2025-12-08");
+    assert.equal(state.mode, "finals");
+    assert.equal(state.label, "Final exams");
+    assert.equal(state.term, "Fall 2025");
+  });
+
+  it("uses the betweenTerms fallback only for gaps inside the calendar", () => {
+    const state = resolveCalendarDay(CALENDAR, "2025-12-22");
+    assert.equal(state.mode, "open");
+    assert.equal(state.term, null);
+  });
+
+  it("reports dates past either edge of the calendar as unknown", () => {
+    for (const date of ["2025-08-01", "2026-10-19"]) {
+      const state = resolveCalendarDay(CALENDAR, date);
+      assert.equal(state.mode, "unknown", date);
+      assert.equal(state.term, null);
+      assert.equal(calendarCovers(CALENDAR, date), false);
+    }
+  });
+});
+
+describe("room status on calendar days", () => {
+  it("follows the weekly blocks on a class day", () => {
+    // Wednesday 2025-10-22, 10:50 AM Eastern.
+    assert.equal(statusAt("2025-10-22T10:50:00-04:00").isAvailableNow, true);
+  });
+
+  it("reports no room free on a closed day", () => {
+    // Wednesday 2025-11-26, the first day of Thanksgiving break.
+    const status = statusAt("2025-11-26T10:50:00-05:00");
+    assert.equal(status.isAvailableNow, false);
+    assert.equal(status.nextAvailable?.date, "2025-12-01");
+  });
+
+  it("skips finals and looks ahead to the break after them", () => {
+    // Wednesday 2025-12-10, 10:50 AM Eastern, during Fall finals.
+    const status = statusAt("2025-12-10T10:50:00-05:00");
+    assert.equal(status.isAvailableNow, false);
+    assert.equal(status.nextAvailable?.date, "2025-12-13");
+  });
+
+  it("reports no room free on a date the calendar does not cover", () => {
+    // Monday 2026-10-19, after the last listed term.
+    const status = statusAt("2026-10-19T10:50:00-04:00");
+    assert.equal(status.isAvailableNow, false);
+    assert.equal(status.nextAvailable, null);
+  });
+});
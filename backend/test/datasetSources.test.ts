@@ -0,0 +1,303 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import Database from "better-sqlite3";
+import {
+  PERIOD_DEFINITIONS,
+  type AvailabilityDataset,
+  type RawStarsData,
+} from "../lib/availability.js";
+import {
+  createSqliteSource,
+  loadFromSources,
+  resolveDatasetSources,
+  type DatasetSource,
+  type DatasetSourceKind,
+} from "../lib/datasetSources.js";
+
+const backendRoot = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  ".."
+);
+const scheduleForTerm = () => PERIOD_DEFINITIONS;
+// Never called: resolution only checks that a client was configured.
+const supabase = {} as SupabaseClient;
+
+function dataset(term: string): AvailabilityDataset {
+  return {
+    fetchedAt: "2025-10-02T12:00:00Z",
+    term,
+    classSizes: ["10"],
+    buildings: [
+      {
+        id: "B1",
+        code: "TST",
+        name: "Test Hall",
+        campusId: "0",
+        lat: 29.64,
+        lng: -82.34,
+        rooms: [
+          {
+            number: "101",
+            amenities: [],
+            availability: { "10": { periods: [] } },
+          },
+        ],
+      },
+    ],
+  };
+}
+
+// What scripts/fetch-stars.ts writes to the local directory.
+const RAW_STARS: RawStarsData = {
+  fetchedAt: "2025-10-02T12:00:00Z",
+  term: "Fall 2025",
+  classSizes: ["10"],
+  buildings: [
+    {
+      id: "B1",
+      name: "Test Hall",
+      code: "TST",
+      sizes: { "10": [{ ROOM: "101", DAY: "M", PERIOD: "4" }] },
+    },
+  ],
+};
+
+function stubSource(
+  kind: DatasetSourceKind,
+  load: DatasetSource["load"]
+): DatasetSource {
+  return {
+    kind,
+    location: `stub:${kind}`,
+    load,
+    listVersions: async () => [],
+    loadVersion: async () => null,
+  };
+}
+
+const tempDirs: string[] = [];
+function tempDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "freerooms-sources-"));
+  tempDirs.push(dir);
+  return dir;
+}
+after(() => {
+  tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true }));
+});
+
+describe("resolveDatasetSources", () => {
+  it("defaults to supabase, then sqlite, then the local directory", () => {
+    const sources = resolveDatasetSources({
+      backendRoot,
+      env: {},
+      supabase,
+      scheduleForTerm,
+    });
+    assert.deepEqual(
+      sources.map((source) => source.kind),
+      ["supabase", "sqlite", "local"]
+    );
+    assert.equal(sources[2].location, path.join(backendRoot, "data"));
+  });
+
+  it("skips supabase when no client is configured", () => {
+    const sources = resolveDatasetSources({
+      backendRoot,
+      env: {},
+      scheduleForTerm,
+    });
+    assert.deepEqual(
+      sources.map((source) => source.kind),
+      ["sqlite", "local"]
+    );
+  });
+
+  it("follows DATASET_SOURCES and rejects unknown kinds", () => {
+    const sources = resolveDatasetSources({
+      backendRoot,
+      env: { DATASET_SOURCES: "local, SQLite" },
+      supabase,
+      scheduleForTerm,
+    });
+    assert.deepEqual(
+      sources.map((source) => source.kind),
+      ["local", "sqlite"]
+    );
+    assert.throws(
+      () =>
+        resolveDatasetSources({
+          backendRoot,
+          env: { DATASET_SOURCES: "supabase,s3" },
+          scheduleForTerm,
+        }),
+      RangeError
+    );
+  });
+});
+
+describe("loadFromSources", () => {
+  it("returns the first source with data", async () => {
+    const loaded = await loadFromSources([
+      stubSource("supabase", async () => [dataset("Fall 2025")]),
+      stubSource("sqlite", async () => [dataset("Spring 2026")]),
+    ]);
+    assert.equal(loaded?.source, "supabase");
+    assert.deepEqual(
+      loaded?.datasets.map((item) => item.term),
+      ["Fall 2025"]
+    );
+  });
+
+  it("falls through sources that are empty or fail", async (t) => {
+    t.mock.method(console, "warn", () => {});
+    const loaded = await loadFromSources([
+      stubSource("supabase", async () => {
+        throw new Error("connection refused");
+      }),
+      stubSource("sqlite", async () => []),
+      stubSource("local", async () => [dataset("Fall 2025")]),
+    ]);
+    assert.equal(loaded?.source, "local");
+    assert.equal(loaded?.location, "stub:local");
+  });
+
+  it("returns null when no source has data", async () => {
+    assert.equal(
+      await loadFromSources([stubSource("local", async () => [])]),
+      null
+    );
+  });
+
+  it("prefers a published SQLite file over the local directory", async () => {
+    const dir = tempDir();
+    fs.writeFileSync(
+      path.join(dir, "stars-open-rooms.json"),
+      JSON.stringify(RAW_STARS)
+    );
+    const options = {
+      backendRoot,
+      env: { DATASET_DIR: dir, DATASET_SOURCES: "sqlite,local" },
+      scheduleForTerm,
+    };
+
+    const before = await loadFromSources(resolveDatasetSources(options));
+    assert.equal(before?.source, "local");
+    assert.equal(before?.datasets[0].buildings[0].rooms[0].number, "0101");
+
+    await createSqliteSource(
+      path.join(dir, "availability.sqlite"),
+      scheduleForTerm
+    ).save?.(dataset("Spring 2099"));
+    const afterSave = await loadFromSources(resolveDatasetSources(options));
+    assert.equal(afterSave?.source, "sqlite");
+    assert.deepEqual(
+      afterSave?.datasets.map((item) => item.term),
+      ["Spring 2099"]
+    );
+  });
+
+  it("loads one dataset per term from the local directory", async () => {
+    const dir = tempDir();
+    const write = (fileName: string, term: string, fetchedAt: string) =>
+      fs.writeFileSync(
+        path.join(dir, fileName),
+        JSON.stringify({ ...RAW_STARS, term, fetchedAt })
+      );
+    write("stars-open-rooms.json", "Fall 2025", "2025-10-02T12:00:00Z");
+    write(
+      "stars-open-rooms-fall-old.json",
+      "Fall 2025",
+      "2025-09-01T12:00:00Z"
+    );
+    write(
+      "stars-open-rooms-spring.json",
+      "Spring 2026",
+      "2025-11-15T12:00:00Z"
+    );
+
+    const loaded = await loadFromSources(
+      resolveDatasetSources({
+        backendRoot,
+        env: { DATASET_DIR: dir, DATASET_SOURCES: "local" },
+        scheduleForTerm,
+      })
+    );
+    assert.deepEqual(
+      loaded?.datasets
+        .map(({ term, fetchedAt }) => [term, fetchedAt])
+        .sort(([a], [b]) => a.localeCompare(b)),
+      [
+        ["Fall 2025", "2025-10-02T12:00:00Z"],
+        ["Spring 2026", "2025-11-15T12:00:00Z"],
+      ]
+    );
+  });
+
+  it("keeps every saved version and marks the current one", async () => {
+    const source = createSqliteSource(
+      path.join(tempDir(), "availability.sqlite"),
+      scheduleForTerm
+    );
+    const first = await source.save?.(dataset("Fall 2025"));
+    const second = await source.save?.({
+      ...dataset("Fall 2025"),
+      fetchedAt: "2025-10-09T12:00:00Z",
+    });
+    assert.ok(first && second);
+    assert.notEqual(first, second);
+    assert.match(second, /^[0-9a-f]{12}$/);
+
+    const versions = await source.listVersions({ term: "fall 2025" });
+    assert.deepEqual(
+      versions.map(({ version, isCurrent }) => [version, isCurrent]),
+      [
+        [second, true],
+        [first, false],
+      ]
+    );
+    assert.equal((await source.listVersions({ limit: 1 })).length, 1);
+    assert.equal(
+      (await source.loadVersion(first))?.fetchedAt,
+      "2025-10-02T12:00:00Z"
+    );
+    assert.equal(await source.loadVersion("000000000000"), null);
+  });
+
+  it("serves the legacy snapshots table until it is migrated", async (t) => {
+    const warn = t.mock.method(console, "warn", () => {});
+    const filePath = path.join(tempDir(), "availability.sqlite");
+    const db = new Database(filePath);
+    db.exec(`create table room_availability_snapshots (
+      term text primary key,
+      fetched_at text not null,
+      data text not null
+    )`);
+    db.prepare(
+      "insert into room_availability_snapshots (term, fetched_at, data) values (?, ?, ?)"
+    ).run(
+      "Fall 2025",
+      "2025-10-02T12:00:00Z",
+      JSON.stringify(dataset("Fall 2025"))
+    );
+    db.close();
+
+    const source = createSqliteSource(filePath, scheduleForTerm);
+    const legacy = await loadFromSources([source]);
+    assert.equal(legacy?.source, "sqlite");
+    assert.equal(legacy?.legacy, true);
+    assert.equal(warn.mock.callCount(), 1);
+
+    await source.save?.(dataset("Fall 2025"));
+    const migrated = await loadFromSources([source]);
+    assert.equal(migrated?.legacy, undefined);
+    assert.deepEqual(
+      migrated?.datasets.map((item) => item.term),
+      ["Fall 2025"]
+    );
+  });
+});
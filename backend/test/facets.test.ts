@@ -0,0 +1,162 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PERIOD_DEFINITIONS,
+  type NextAvailability,
+  type TimeContext,
+} from "../lib/availability.js";
+import { computeRoomFacets, ROOM_FACETS } from "../lib/facets.js";
+import type { FlatRoom, RoomBuildingRef } from "../lib/roomList.js";
+import { createRouteSchemas, validateRequest } from "../lib/validation.js";
+
+const CONTEXT: TimeContext = { dayCode: "W", minutes: 650, date: "2025-10-22" };
+
+function ref(id: string, name: string): RoomBuildingRef {
+  return { id, code: id, name, campusId: null, lat: null, lng: null };
+}
+
+const LITTLE = ref("MAT", "Little Hall");
+const LIBRARY = ref("LIB", "Library West");
+
+function nextOn(date: string): NextAvailability {
+  return {
+    day: "W",
+    dayLabel: "Wednesday",
+    date,
+    period: "7",
+    startTime: "1:55 PM",
+    endTime: "2:45 PM",
+  };
+}
+
+function flat(
+  building: RoomBuildingRef,
+  number: string,
+  capacity: number | null,
+  amenities: string[],
+  status: "open" | "later" | "tomorrow"
+): FlatRoom {
+  return {
+    id: `${building.code}-${number}`,
+    building,
+    number,
+    capacity,
+    amenities,
+    availability: {
+      "10": {
+        isAvailableNow: status === "open",
+        nextAvailable:
+          status === "open"
+            ? null
+            : nextOn(status === "later" ? CONTEXT.date : "2025-10-23"),
+      },
+    },
+  };
+}
+
+const ROOMS = [
+  flat(LITTLE, "0101", 30, ["projector"], "open"),
+  flat(LITTLE, "0102", 120, ["ada", "projector"], "later"),
+  flat(LIBRARY, "0201", 15, ["power"], "tomorrow"),
+  flat(LIBRARY, "0202", null, [], "open"),
+];
+
+describe("computeRoomFacets", () => {
+  it("counts amenities, capacity, buildings and availability", () => {
+    const facets = computeRoomFacets(ROOMS, [...ROOM_FACETS], {}, CONTEXT);
+    assert.deepEqual(facets.amenities, {
+      ada: 1,
+      chalkboard: 0,
+      power: 1,
+      projector: 2,
+    });
+    assert.equal(facets.capacity?.min, 15);
+    assert.equal(facets.capacity?.max, 120);
+    assert.equal(facets.capacity?.unknown, 1);
+    assert.deepEqual(
+      facets.capacity?.buckets
+        .filter((bucket) => bucket.count > 0)
+        .map(({ min, count }) => [min, count]),
+      [
+        [1, 1],
+        [20, 1],
+        [100, 1],
+      ]
+    );
+    assert.deepEqual(
+      facets.buildings?.map(({ id, count }) => [id, count]),
+      [
+        ["LIB", 2],
+        ["MAT", 2],
+      ]
+    );
+    assert.deepEqual(facets.availability, {
+      openNow: 2,
+      laterToday: 1,
+      notToday: 1,
+    });
+  });
+
+  it("returns only the requested facets", () => {
+    assert.deepEqual(
+      Object.keys(computeRoomFacets(ROOMS, ["amenities"], {}, CONTEXT)),
+      ["amenities"]
+    );
+  });
+
+  it("leaves each facet's own filter out", () => {
+    const facets = computeRoomFacets(
+      ROOMS,
+      [...ROOM_FACETS],
+      { buildingCode: "mat", minCapacity: 100 },
+      CONTEXT
+    );
+    // Capacity still spans Little Hall's full range…
+    assert.equal(facets.capacity?.min, 30);
+    assert.equal(facets.capacity?.max, 120);
+    // …and buildings still lists every building with a 100+ seat room.
+    assert.deepEqual(
+      facets.buildings?.map(({ id, count }) => [id, count]),
+      [["MAT", 1]]
+    );
+    // The others apply both filters.
+    assert.deepEqual(facets.amenities, {
+      ada: 1,
+      chalkboard: 0,
+      power: 0,
+      projector: 1,
+    });
+    assert.deepEqual(facets.availability, {
+      openNow: 0,
+      laterToday: 1,
+      notToday: 0,
+    });
+  });
+});
+
+describe("facets validation", () => {
+  const schemas = createRouteSchemas({
+    classSizes: ["10"],
+    schedule: PERIOD_DEFINITIONS,
+    terms: ["Fall 2025"],
+  });
+
+  it("accepts a comma-separated facet list", () => {
+    const result = validateRequest(schemas.roomsOpen, {
+      params: {},
+      query: { facets: "capacity,amenities" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.deepEqual(result.query.facets, ["capacity", "amenities"]);
+    }
+  });
+
+  it("rejects unknown facets", () => {
+    const result = validateRequest(schemas.roomsOpen, {
+      params: {},
+      query: { facets: "colors" },
+    });
+    assert.equal(result.success, false);
+  });
+});
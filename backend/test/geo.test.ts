@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PERIOD_DEFINITIONS } from "../lib/availability.js";
+import {
+  estimateWalkingMinutes,
+  haversineMeters,
+  parseCoordinates,
+  parseRadius,
+  rankByDistance,
+} from "../lib/geo.js";
+import { createRouteSchemas, validateRequest } from "../lib/validation.js";
+
+const ORIGIN = { lat: 29.6465, lng: -82.34 };
+
+describe("parseCoordinates", () => {
+  it("reads lat,lng in decimal degrees", () => {
+    assert.deepEqual(parseCoordinates(" 29.6465, -82.3533 "), {
+      lat: 29.6465,
+      lng: -82.3533,
+    });
+  });
+
+  it("rejects missing parts and out-of-range values", () => {
+    ["29.6", "29.6,", "a,b", "91,0", "0,181", "1,2,3"].forEach((value) => {
+      assert.equal(parseCoordinates(value), null, value);
+    });
+  });
+});
+
+describe("parseRadius", () => {
+  it("reads meters and kilometers", () => {
+    assert.equal(parseRadius("800"), 800);
+    assert.equal(parseRadius("800m"), 800);
+    assert.equal(parseRadius("1.5 KM"), 1500);
+  });
+
+  it("rejects zero and unknown units", () => {
+    ["0", "-5", "2mi", "far"].forEach((value) => {
+      assert.equal(parseRadius(value), null, value);
+    });
+  });
+});
+
+describe("distances", () => {
+  it("measures great-circle distance", () => {
+    const oneDegreeNorth = { lat: ORIGIN.lat + 1, lng: ORIGIN.lng };
+    assert.equal(Math.round(haversineMeters(ORIGIN, oneDegreeNorth)), 111195);
+  });
+
+  it("pads walking time for detours and rounds up to a minute", () => {
+    assert.equal(estimateWalkingMinutes(0), 1);
+    assert.equal(estimateWalkingMinutes(800), 13);
+  });
+});
+
+describe("rankByDistance", () => {
+  const places = [
+    { id: "far", lat: 29.6555, lng: -82.34 },
+    { id: "none", lat: null, lng: null },
+    { id: "near", lat: 29.647, lng: -82.34 },
+  ];
+
+  it("orders located places nearest first and keeps the rest apart", () => {
+    const { located, unlocated } = rankByDistance(places, ORIGIN);
+    assert.deepEqual(
+      located.map(({ id, distanceMeters }) => [id, distanceMeters]),
+      [
+        ["near", 56],
+        ["far", 1001],
+      ]
+    );
+    assert.equal(located[0].walkingMinutes, 1);
+    assert.deepEqual(
+      unlocated.map(({ id }) => id),
+      ["none"]
+    );
+  });
+
+  it("drops places beyond the radius", () => {
+    const { located, unlocated } = rankByDistance(places, ORIGIN, 500);
+    assert.deepEqual(
+      located.map(({ id }) => id),
+      ["near"]
+    );
+    assert.equal(unlocated.length, 1);
+  });
+});
+
+describe("proximity query validation", () => {
+  const schemas = createRouteSchemas({
+    classSizes: ["10"],
+    schedule: PERIOD_DEFINITIONS,
+    terms: ["Fall 2025"],
+  });
+
+  it("requires near for radius on rooms and buildings", () => {
+    [schemas.roomsOpen, schemas.buildings].forEach((schema) => {
+      const result = validateRequest(schema, {
+        params: {},
+        query: { radius: "800m" },
+      });
+      assert.equal(result.success, false);
+      if (!result.success) {
+        assert.deepEqual(
+          result.body.issues.map(({ field }) => field),
+          ["near"]
+        );
+      }
+    });
+  });
+
+  it("parses near and radius", () => {
+    const result = validateRequest(schemas.buildings, {
+      params: {},
+      query: { near: "29.6465,-82.34", radius: "1km" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.deepEqual(result.query.near, ORIGIN);
+      assert.equal(result.query.radius, 1000);
+    }
+  });
+});
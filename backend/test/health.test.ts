@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { AvailabilityDataset } from "../lib/availability.js";
+import { assessHealth, describeDatasetHealth } from "../lib/health.js";
+
+const NOW = new Date("2025-10-03T12:00:00Z");
+
+function dataset(
+  term: string,
+  fetchedAt: string,
+  buildingCount = 1
+): AvailabilityDataset {
+  return {
+    fetchedAt,
+    term,
+    classSizes: ["10"],
+    buildings: Array.from({ length: buildingCount }, (_, index) => ({
+      id: `B${index}`,
+      code: null,
+      name: `Hall ${index}`,
+      campusId: null,
+      lat: null,
+      lng: null,
+      rooms: [
+        {
+          number: "0101",
+          amenities: [],
+          metadata: {
+            capacity: 30,
+            photo: null,
+            gallery: [],
+            featureFlags: {},
+            detailUrl: "https://example.edu/rooms/0101",
+          },
+          availability: {},
+        },
+        { number: "0102", amenities: [], availability: {} },
+      ],
+    })),
+  };
+}
+
+const FALL = dataset("Fall 2025", "2025-10-02T12:00:00Z");
+const options = { staleAfterHours: 48, now: NOW };
+
+describe("describeDatasetHealth", () => {
+  it("reports age, counts and the metadata match rate", () => {
+    assert.deepEqual(describeDatasetHealth(FALL, options), {
+      term: "Fall 2025",
+      fetchedAt: "2025-10-02T12:00:00Z",
+      ageHours: 24,
+      isStale: false,
+      buildingCount: 1,
+      roomCount: 2,
+      metadataMatched: 1,
+      metadataMatchRate: 0.5,
+    });
+  });
+
+  it("treats a missing fetchedAt as stale", () => {
+    const health = describeDatasetHealth(dataset("Fall 2025", ""), options);
+    assert.equal(health.fetchedAt, null);
+    assert.equal(health.ageHours, null);
+    assert.equal(health.isStale, true);
+  });
+});
+
+describe("assessHealth", () => {
+  it("is ok with a fresh default term", () => {
+    const report = assessHealth([FALL], FALL, true, options);
+    assert.equal(report.status, "ok");
+    assert.deepEqual(report.issues, []);
+  });
+
+  it("lets a stale non-default term lag behind", () => {
+    const spring = dataset("Spring 2026", "2025-09-01T12:00:00Z");
+    const report = assessHealth([FALL, spring], FALL, true, options);
+    assert.equal(report.status, "ok");
+    assert.equal(report.terms[1].isStale, true);
+  });
+
+  it("degrades when the default term is stale or empty", () => {
+    const stale = dataset("Fall 2025", "2025-09-30T12:00:00Z");
+    assert.match(
+      assessHealth([stale], stale, true, options).issues[0],
+      /fetched 72 hours ago \(threshold 48\)/
+    );
+    const empty = dataset("Fall 2025", "2025-10-02T12:00:00Z", 0);
+    assert.match(
+      assessHealth([empty], empty, true, options).issues[0],
+      /has no buildings/
+    );
+  });
+
+  it("degrades when no source returned data", () => {
+    const report = assessHealth([FALL], FALL, false, options);
+    assert.equal(report.status, "degraded");
+    assert.deepEqual(report.issues, [
+      "No dataset source returned data; serving an empty dataset.",
+    ]);
+  });
+
+  it("degrades when the academic calendar does not cover today", () => {
+    const report = assessHealth([FALL], FALL, true, {
+      ...options,
+      calendarDay: {
+        date: "2026-10-19",
+        term: null,
+        mode: "unknown",
+        label: "Outside the academic calendar",
+        scheduleDay: null,
+      },
+    });
+    assert.equal(report.status, "degraded");
+    assert.match(report.issues[0], /does not cover 2026-10-19/);
+  });
+});
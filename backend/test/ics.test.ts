@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  PERIOD_DEFINITIONS,
+  type BuildingAvailability,
+  type PeriodEntry,
+  type RoomAvailability,
+} from "../lib/availability.js";
+import type { AcademicCalendar } from "../lib/calendar.js";
+import { buildRoomCalendar } from "../lib/ics.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+
+const CALENDAR: AcademicCalendar = {
+  terms: [
+    {
+      term: "Fall 2025",
+      start: "2025-08-21",
+      end: "2025-12-12",
+      finals: { start: "2025-12-06", end: "2025-12-12" },
+      exceptions: [{ start: "2025-09-01", mode: "closed", label: "Labor Day" }],
+    },
+  ],
+};
+const FALL = CALENDAR.terms[0];
+
+function periodEntry(day: string, period: string): PeriodEntry {
+  const { start, end } = PERIOD_DEFINITIONS[period];
+  return {
+    day,
+    period,
+    startTime: formatMinutes12(toMinutes(start)),
+    endTime: formatMinutes12(toMinutes(end)),
+    startMinutes: toMinutes(start),
+    endMinutes: toMinutes(end),
+  };
+}
+
+// Free Monday periods 4-5 and Wednesday period 7.
+const ROOM: RoomAvailability = {
+  number: "0101",
+  amenities: [],
+  availability: {
+    "10": {
+      periods: [
+        periodEntry("M", "4"),
+        periodEntry("M", "5"),
+        periodEntry("W", "7"),
+      ],
+    },
+  },
+};
+
+const BUILDING: BuildingAvailability = {
+  id: "B1",
+  code: "MAT",
+  name: "Little Hall",
+  campusId: null,
+  lat: null,
+  lng: null,
+  rooms: [ROOM],
+};
+
+const NOW = new Date("2025-10-20T12:00:00Z");
+
+function events(ics: string): string[][] {
+  return ics
+    .split("BEGIN:VEVENT\r\n")
+    .slice(1)
+    .map((event) => event.split("\r\n"));
+}
+
+describe("buildRoomCalendar", () => {
+  it("emits one weekly event per free block within the term", () => {
+    const ics = buildRoomCalendar(BUILDING, ROOM, {
+      calendar: CALENDAR,
+      term: FALL,
+      now: NOW,
+    });
+    assert.ok(ics.startsWith("BEGIN:VCALENDAR\r\n"));
+    assert.ok(ics.endsWith("END:VCALENDAR\r\n"));
+
+    const [monday, wednesday, ...rest] = events(ics);
+    assert.equal(rest.length, 0);
+    assert.ok(monday.includes("DTSTART;TZID=America/New_York:20250825T104000"));
+    assert.ok(monday.includes("DTEND;TZID=America/New_York:20250825T123500"));
+    assert.ok(
+      monday.includes("RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20251213T035959Z")
+    );
+    assert.ok(
+      wednesday.includes("DTSTART;TZID=America/New_York:20250827T135500")
+    );
+  });
+
+  it("skips closed and finals days through EXDATE", () => {
+    const [monday] = events(
+      buildRoomCalendar(BUILDING, ROOM, {
+        calendar: CALENDAR,
+        term: FALL,
+        now: NOW,
+      })
+    );
+    assert.deepEqual(
+      monday.filter((line) => line.startsWith("EXDATE")),
+      [
+        "EXDATE;TZID=America/New_York:20250901T104000",
+        "EXDATE;TZID=America/New_York:20251208T104000",
+      ]
+    );
+  });
+
+  it("recurs without an end date when the term is unknown", () => {
+    const [monday] = events(buildRoomCalendar(BUILDING, ROOM, { now: NOW }));
+    assert.ok(monday.includes("DTSTART;TZID=America/New_York:20251020T104000"));
+    assert.ok(monday.includes("RRULE:FREQ=WEEKLY;BYDAY=MO"));
+  });
+
+  it("filters by day and minimum length", () => {
+    const ics = buildRoomCalendar(BUILDING, ROOM, {
+      days: ["M", "W"],
+      minMinutes: 60,
+      now: NOW,
+    });
+    const all = events(ics);
+    assert.equal(all.length, 1);
+    assert.ok(all[0].includes("RRULE:FREQ=WEEKLY;BYDAY=MO"));
+  });
+
+  it("folds long lines at 75 octets, counting the leading space", () => {
+    const building = {
+      ...BUILDING,
+      name: "Marston Science Library and Collaborative Learning Commons – East",
+    };
+    const ics = buildRoomCalendar(building, ROOM, { now: NOW });
+    ics
+      .split("\r\n")
+      .forEach((line) => assert.ok(Buffer.byteLength(line, "utf8") <= 75));
+    assert.ok(
+      ics.replace(/\r\n /g, "").includes(`LOCATION:${building.name} 0101\r\n`)
+    );
+  });
+});
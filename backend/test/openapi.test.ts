@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import { PERIOD_DEFINITIONS } from "../lib/availability.js";
+import { API_ROUTES, buildOpenApiDocument } from "../lib/openapi.js";
+import { createRouteSchemas } from "../lib/validation.js";
+
+const backendRoot = path.resolve(
+  path.dirname(fileURLToPath(import.meta.url)),
+  ".."
+);
+
+// The routes server.ts registers, read from its source so the test does not
+// have to start the server.
+function registeredRoutes(): string[] {
+  const source = fs.readFileSync(path.join(backendRoot, "server.ts"), "utf8");
+  return Array.from(
+    source.matchAll(/\bapp\.(get|post|put|patch|delete)\(\s*"([^"]+)"/g),
+    ([, method, route]) => `${method.toUpperCase()} ${route}`
+  ).sort();
+}
+
+const document = buildOpenApiDocument(
+  createRouteSchemas({
+    classSizes: ["10", "25"],
+    schedule: PERIOD_DEFINITIONS,
+    terms: ["Fall 2025"],
+  }),
+  { title: "Test", version: "0.0.0" }
+);
+
+describe("OpenAPI document", () => {
+  it("documents exactly the routes server.ts registers", () => {
+    assert.deepEqual(
+      API_ROUTES.map(
+        (route) => `${route.method.toUpperCase()} ${route.path}`
+      ).sort(),
+      registeredRoutes()
+    );
+  });
+
+  it("gives every 200 response a schema", () => {
+    API_ROUTES.forEach((route) => {
+      const openApiPath = route.path.replace(/:([A-Za-z]+)/g, "{$1}");
+      const operation = document.paths[openApiPath][route.method] as {
+        responses: Record<
+          string,
+          { content: Record<string, { schema: Record<string, unknown> }> }
+        >;
+      };
+      const contentType = route.contentType ?? "application/json";
+      const { schema } = operation.responses[200].content[contentType];
+      if (contentType === "application/json") {
+        assert.equal(schema.type, "object", route.path);
+      } else {
+        assert.deepEqual(schema, { type: "string" }, route.path);
+      }
+    });
+  });
+
+  it("describes room bodies down to the per-size status", () => {
+    const operation = document.paths["/api/rooms/{id}"].get as {
+      responses: Record<
+        string,
+        { content: Record<string, { schema: Record<string, any> }> }
+      >;
+    };
+    const { schema } = operation.responses[200].content["application/json"];
+    const availability =
+      schema.properties.room.properties.availability.additionalProperties;
+    assert.deepEqual(Object.keys(availability.properties), [
+      "periods",
+      "isAvailableNow",
+      "nextAvailable",
+      "openUntil",
+      "freeMinutesRemaining",
+      "nextBusyAt",
+    ]);
+  });
+
+  it("lists the loaded class sizes and periods in the parameters", () => {
+    const operation = document.paths["/api/rooms/open"].get as {
+      parameters: Array<{
+        name: string;
+        description: string;
+        schema: Record<string, unknown>;
+      }>;
+    };
+    const byName = new Map(
+      operation.parameters.map((parameter) => [parameter.name, parameter])
+    );
+    assert.deepEqual(byName.get("size")?.schema.enum, ["10", "25"]);
+    assert.match(
+      byName.get("periods")?.description ?? "",
+      /\b11, E1, E2, E3\b/
+    );
+  });
+
+  it("describes each event of the room stream", () => {
+    const operation = document.paths["/api/rooms/stream"].get as {
+      responses: Record<
+        string,
+        { content: Record<string, { "x-events": Record<string, unknown> }> }
+      >;
+    };
+    assert.deepEqual(
+      Object.keys(
+        operation.responses[200].content["text/event-stream"]["x-events"]
+      ),
+      ["snapshot", "status"]
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PERIOD_DEFINITIONS, type PeriodEntry } from "../lib/availability.js";
+import {
+  createPeriodMatch,
+  listMatchedPeriods,
+  matchPeriodEntries,
+} from "../lib/periodMatch.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+import { createRouteSchemas, validateRequest } from "../lib/validation.js";
+
+function entry(day: string, period: string): PeriodEntry {
+  const { start, end } = PERIOD_DEFINITIONS[period];
+  return {
+    day,
+    period,
+    startTime: formatMinutes12(toMinutes(start)),
+    endTime: formatMinutes12(toMinutes(end)),
+    startMinutes: toMinutes(start),
+    endMinutes: toMinutes(end),
+  };
+}
+
+// Free Monday 4-5 and Wednesday 4 only.
+const ENTRIES = [entry("M", "4"), entry("M", "5"), entry("W", "4")];
+
+const keys = (entries: PeriodEntry[] | null) =>
+  entries?.map(({ day, period }) => `${day}${period}`) ?? null;
+
+describe("createPeriodMatch", () => {
+  it("is null without days or periods", () => {
+    assert.equal(createPeriodMatch({ match: "all" }), null);
+  });
+
+  it("defaults to match=any", () => {
+    assert.deepEqual(createPeriodMatch({ days: ["W"] }), {
+      days: ["W"],
+      periods: null,
+      match: "any",
+    });
+  });
+});
+
+describe("matchPeriodEntries", () => {
+  it("keeps every free combination with match=any", () => {
+    const filter = createPeriodMatch({
+      days: ["M", "W"],
+      periods: new Set(["5"]),
+    });
+    assert.ok(filter);
+    assert.deepEqual(keys(matchPeriodEntries(ENTRIES, filter)), ["M5"]);
+  });
+
+  it("requires every period on every day with match=all", () => {
+    const monday = createPeriodMatch({
+      days: ["M"],
+      periods: new Set(["4", "5"]),
+      match: "all",
+    });
+    assert.ok(monday);
+    assert.deepEqual(keys(matchPeriodEntries(ENTRIES, monday)), ["M4", "M5"]);
+
+    const both = createPeriodMatch({
+      days: ["M", "W"],
+      periods: new Set(["4", "5"]),
+      match: "all",
+    });
+    assert.ok(both);
+    assert.equal(matchPeriodEntries(ENTRIES, both), null);
+  });
+
+  it("returns null when nothing matches", () => {
+    const filter = createPeriodMatch({ days: ["F"] });
+    assert.ok(filter);
+    assert.equal(matchPeriodEntries(ENTRIES, filter), null);
+  });
+});
+
+describe("listMatchedPeriods", () => {
+  it("merges size buckets and orders by weekday and start time", () => {
+    assert.deepEqual(
+      listMatchedPeriods({
+        "25": { periods: [entry("W", "4"), entry("M", "5")] },
+        "10": { periods: [entry("M", "5"), entry("M", "4")] },
+      }),
+      [
+        { day: "M", period: "4" },
+        { day: "M", period: "5" },
+        { day: "W", period: "4" },
+      ]
+    );
+  });
+});
+
+describe("period match validation", () => {
+  const schemas = createRouteSchemas({
+    classSizes: ["10"],
+    schedule: PERIOD_DEFINITIONS,
+    terms: ["Fall 2025"],
+  });
+
+  it("parses days and match", () => {
+    const result = validateRequest(schemas.roomsOpen, {
+      params: {},
+      query: { days: "TR", periods: "4,5", match: "all" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.deepEqual(result.query.days, ["T", "TH"]);
+      assert.equal(result.query.match, "all");
+    }
+  });
+
+  it("rejects match=all without both days and periods", () => {
+    [schemas.roomsOpen, schemas.roomsStream].forEach((schema) => {
+      const result = validateRequest(schema, {
+        params: {},
+        query: { days: "W", match: "all" },
+      });
+      assert.equal(result.success, false);
+      if (!result.success) {
+        assert.equal(result.body.issues[0].field, "match");
+      }
+    });
+  });
+});
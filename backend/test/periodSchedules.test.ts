@@ -0,0 +1,72 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  describePeriodSchedule,
+  findUnknownPeriods,
+} from "../lib/availability.js";
+import {
+  resolvePeriodSchedule,
+  type PeriodSchedule,
+  type PeriodScheduleConfig,
+} from "../lib/periodSchedules.js";
+
+const STANDARD: PeriodSchedule = {
+  "1": { start: "07:25", end: "08:15" },
+  "2": { start: "08:30", end: "09:20" },
+};
+const SUMMER: PeriodSchedule = {
+  "1": { start: "08:00", end: "09:15" },
+  "2": { start: "09:30", end: "10:45" },
+};
+const INTERSESSION: PeriodSchedule = {
+  "1": { start: "09:00", end: "11:00" },
+};
+
+const CONFIG: PeriodScheduleConfig = {
+  default: "standard",
+  terms: { Summer: "summer", "Summer 2026": "intersession" },
+  schedules: {
+    standard: STANDARD,
+    summer: SUMMER,
+    intersession: INTERSESSION,
+  },
+};
+
+describe("resolvePeriodSchedule", () => {
+  it("prefers the full term name over its season", () => {
+    assert.equal(resolvePeriodSchedule(CONFIG, "Summer 2026"), INTERSESSION);
+    assert.equal(resolvePeriodSchedule(CONFIG, "Summer 2027"), SUMMER);
+  });
+
+  it("falls back to the default schedule", () => {
+    assert.equal(resolvePeriodSchedule(CONFIG, "Fall 2025"), STANDARD);
+    assert.equal(resolvePeriodSchedule(CONFIG, null), STANDARD);
+  });
+
+  it("returns null without a config or a matching schedule", () => {
+    assert.equal(resolvePeriodSchedule(null, "Fall 2025"), null);
+    assert.equal(
+      resolvePeriodSchedule({ ...CONFIG, default: undefined }, "Fall 2025"),
+      null
+    );
+  });
+});
+
+describe("period schedule helpers", () => {
+  it("lists periods in start-time order with 12-hour times", () => {
+    const schedule: PeriodSchedule = {
+      E1: { start: "19:20", end: "20:10" },
+      "10": { start: "17:10", end: "18:00" },
+      "2": { start: "08:30", end: "09:20" },
+    };
+    assert.deepEqual(describePeriodSchedule(schedule), [
+      { period: "2", startTime: "8:30 AM", endTime: "9:20 AM" },
+      { period: "10", startTime: "5:10 PM", endTime: "6:00 PM" },
+      { period: "E1", startTime: "7:20 PM", endTime: "8:10 PM" },
+    ]);
+  });
+
+  it("reports STARS periods the schedule does not define", () => {
+    assert.deepEqual(findUnknownPeriods(["1", "2", "E3"], SUMMER), ["E3"]);
+  });
+});
@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getEasternContext,
+  type AvailabilityDataset,
+} from "../lib/availability.js";
+import { addDays } from "../lib/calendar.js";
+import { createRoomIndex, queryRooms } from "../lib/roomIndex.js";
+
+const dataset: AvailabilityDataset = {
+  fetchedAt: "2025-10-02T12:00:00Z",
+  term: "Fall 2025",
+  classSizes: ["10"],
+  buildings: [
+    {
+      id: "B1",
+      code: "TST",
+      name: "Test Hall",
+      campusId: "0",
+      lat: 29.64,
+      lng: -82.34,
+      rooms: [{ number: "101", amenities: [], availability: { "10": {} } }],
+    },
+  ],
+};
+
+describe("room index caches", () => {
+  it("keep a bounded number of dates on a long-running server", () => {
+    const index = createRoomIndex(dataset, {});
+    for (let day = 0; day < 60; day += 1) {
+      const context = getEasternContext(
+        new Date(`${addDays("2025-09-01", day)}T12:00:00-04:00`)
+      );
+      assert.ok(context);
+      queryRooms(index, {}, null, context);
+    }
+    assert.ok(index.boundaries.size <= 8);
+    assert.ok(index.statusCache.size <= 16);
+    assert.ok(index.boundaries.has("2025-10-30"));
+  });
+});
@@ -0,0 +1,231 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PERIOD_DEFINITIONS } from "../lib/availability.js";
+import {
+  decodeRoomCursor,
+  encodeRoomCursor,
+  locateRooms,
+  nestRooms,
+  paginateRooms,
+  selectRoomFields,
+  sortRooms,
+  type FlatRoom,
+  type RoomBuildingRef,
+} from "../lib/roomList.js";
+import { createRouteSchemas, validateRequest } from "../lib/validation.js";
+
+function ref(id: string, name: string, lat: number | null): RoomBuildingRef {
+  return {
+    id,
+    code: id,
+    name,
+    campusId: null,
+    lat,
+    lng: lat === null ? null : -82.34,
+  };
+}
+
+// Little Hall is next to the origin; Library West is ~1 km north; the annex
+// has no coordinates.
+const LITTLE = ref("MAT", "Little Hall", 29.6465);
+const LIBRARY = ref("LIB", "Library West", 29.6555);
+const ANNEX = ref("ANX", "Annex", null);
+const ORIGIN = { lat: 29.6465, lng: -82.34 };
+
+function flat(
+  building: RoomBuildingRef,
+  number: string,
+  capacity: number | null,
+  freeMinutesRemaining: number | null
+): FlatRoom {
+  return {
+    id: `${building.code}-${number}`,
+    building,
+    number,
+    capacity,
+    amenities: [],
+    metadata: {
+      capacity,
+      photo: null,
+      gallery: [],
+      featureFlags: {},
+      detailUrl: "",
+    },
+    availability: {
+      "10": {
+        isAvailableNow: freeMinutesRemaining !== null,
+        freeMinutesRemaining,
+      },
+    },
+  };
+}
+
+const ROOMS: FlatRoom[] = [
+  flat(LITTLE, "0101", 40, 30),
+  flat(LIBRARY, "0200", 120, null),
+  flat(ANNEX, "0003", null, 90),
+  flat(LITTLE, "0011", 40, 30),
+];
+
+const ids = (rooms: FlatRoom[]) => rooms.map(({ id }) => id);
+
+describe("room cursors", () => {
+  it("round-trips the offset and sort", () => {
+    const cursor = { offset: 25, sort: "capacity" as const };
+    assert.deepEqual(decodeRoomCursor(encodeRoomCursor(cursor)), cursor);
+  });
+
+  it("rejects tampered or foreign cursors", () => {
+    const encode = (value: unknown) =>
+      Buffer.from(JSON.stringify(value)).toString("base64url");
+    assert.equal(decodeRoomCursor("not a cursor"), null);
+    assert.equal(decodeRoomCursor(encode({ o: -1, s: null })), null);
+    assert.equal(decodeRoomCursor(encode({ o: 5, s: "price" })), null);
+  });
+});
+
+describe("sortRooms", () => {
+  it("puts the most free time first and busy rooms last", () => {
+    assert.deepEqual(ids(sortRooms(ROOMS, "openUntil")), [
+      "ANX-0003",
+      "MAT-0011",
+      "MAT-0101",
+      "LIB-0200",
+    ]);
+  });
+
+  it("puts the largest rooms first and unknown capacity last", () => {
+    assert.deepEqual(ids(sortRooms(ROOMS, "capacity")), [
+      "LIB-0200",
+      "MAT-0011",
+      "MAT-0101",
+      "ANX-0003",
+    ]);
+  });
+
+  it("puts the nearest rooms first and unlocated rooms last", () => {
+    assert.deepEqual(ids(sortRooms(ROOMS, "distance", ORIGIN)), [
+      "MAT-0011",
+      "MAT-0101",
+      "LIB-0200",
+      "ANX-0003",
+    ]);
+  });
+
+  it("orders by building name, then numeric room number", () => {
+    assert.deepEqual(ids(sortRooms(ROOMS, "name")), [
+      "ANX-0003",
+      "LIB-0200",
+      "MAT-0011",
+      "MAT-0101",
+    ]);
+  });
+});
+
+describe("locateRooms", () => {
+  it("annotates buildings and reports the unlocated ones", () => {
+    const { rooms, unlocatedBuildings } = locateRooms(ROOMS, ORIGIN);
+    assert.deepEqual(ids(rooms), ids(ROOMS));
+    assert.equal(rooms[0].building.distanceMeters, 0);
+    assert.equal(rooms[1].building.walkingMinutes, 17);
+    assert.deepEqual(
+      unlocatedBuildings.map(({ id }) => id),
+      ["ANX"]
+    );
+  });
+
+  it("drops rooms outside the radius and in unlocated buildings", () => {
+    const { rooms, unlocatedBuildings } = locateRooms(ROOMS, ORIGIN, 500);
+    assert.deepEqual(ids(rooms), ["MAT-0101", "MAT-0011"]);
+    assert.deepEqual(
+      unlocatedBuildings.map(({ id }) => id),
+      ["ANX"]
+    );
+  });
+});
+
+describe("paginateRooms", () => {
+  it("returns every room when no limit is set", () => {
+    const { rooms, page } = paginateRooms(ROOMS, {});
+    assert.deepEqual(ids(rooms), ids(ROOMS));
+    assert.deepEqual(page, { total: 4, limit: null, nextCursor: null });
+  });
+
+  it("walks the pages with the returned cursor", () => {
+    const first = paginateRooms(ROOMS, { sort: "capacity", limit: 3 });
+    assert.deepEqual(ids(first.rooms), ["LIB-0200", "MAT-0011", "MAT-0101"]);
+    assert.ok(first.page.nextCursor);
+
+    const cursor = decodeRoomCursor(first.page.nextCursor);
+    assert.deepEqual(cursor, { offset: 3, sort: "capacity" });
+    const second = paginateRooms(ROOMS, { sort: "capacity", limit: 3, cursor });
+    assert.deepEqual(ids(second.rooms), ["ANX-0003"]);
+    assert.equal(second.page.nextCursor, null);
+  });
+});
+
+describe("selectRoomFields", () => {
+  it("keeps everything without a field list", () => {
+    assert.equal(selectRoomFields(ROOMS[0], null), ROOMS[0]);
+  });
+
+  it("keeps the identity fields plus the requested ones", () => {
+    const selected = selectRoomFields(ROOMS[0], ["metadata.capacity"]);
+    assert.deepEqual(Object.keys(selected), [
+      "id",
+      "building",
+      "number",
+      "capacity",
+      "amenities",
+      "metadata",
+    ]);
+    assert.deepEqual(selected.metadata, { capacity: 40 });
+
+    const withAvailability = selectRoomFields(ROOMS[0], ["availability"]);
+    assert.equal(withAvailability.metadata, undefined);
+    assert.equal(withAvailability.availability, ROOMS[0].availability);
+  });
+});
+
+describe("nestRooms", () => {
+  it("groups a page by building in first-seen order", () => {
+    const nested = nestRooms(sortRooms(ROOMS, "openUntil"));
+    assert.deepEqual(
+      nested.map(({ id, rooms }) => [id, rooms.map(({ number }) => number)]),
+      [
+        ["ANX", ["0003"]],
+        ["MAT", ["0011", "0101"]],
+        ["LIB", ["0200"]],
+      ]
+    );
+    assert.equal("capacity" in nested[1].rooms[0], false);
+  });
+});
+
+describe("room list query validation", () => {
+  const { roomsOpen } = createRouteSchemas({
+    classSizes: ["10"],
+    schedule: PERIOD_DEFINITIONS,
+    terms: ["Fall 2025"],
+  });
+  const issues = (query: Record<string, string>) => {
+    const result = validateRequest(roomsOpen, { params: {}, query });
+    return result.success ? [] : result.body.issues.map(({ field }) => field);
+  };
+
+  it("requires an origin for distance sorting", () => {
+    assert.deepEqual(issues({ sort: "distance" }), ["near"]);
+    assert.deepEqual(issues({ sort: "distance", near: "29.6465,-82.34" }), []);
+  });
+
+  it("rejects a cursor from a different sort order", () => {
+    const cursor = encodeRoomCursor({ offset: 50, sort: "capacity" });
+    assert.deepEqual(issues({ sort: "capacity", cursor }), []);
+    assert.deepEqual(issues({ sort: "name", cursor }), ["cursor"]);
+  });
+
+  it("accepts only known fields", () => {
+    assert.deepEqual(issues({ fields: "availability,metadata.photo" }), []);
+    assert.deepEqual(issues({ fields: "availability,price" }), ["fields.1"]);
+  });
+});
@@ -0,0 +1,137 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  getEasternContext,
+  PERIOD_DEFINITIONS,
+  type AvailabilityDataset,
+  type PeriodEntry,
+} from "../lib/availability.js";
+import {
+  boundariesFor,
+  createRoomIndex,
+  queryRooms,
+} from "../lib/roomIndex.js";
+import {
+  diffRoomStatuses,
+  msUntilNextBoundary,
+  summarizeRoomStatuses,
+} from "../lib/roomStream.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+
+const dataset: AvailabilityDataset = {
+  fetchedAt: "2025-10-02T12:00:00Z",
+  term: "Fall 2025",
+  classSizes: ["10"],
+  buildings: [
+    {
+      id: "B1",
+      code: "MAT",
+      name: "Little Hall",
+      campusId: "0",
+      lat: 29.64,
+      lng: -82.34,
+      rooms: [{ number: "101", amenities: [], availability: { "10": {} } }],
+    },
+  ],
+};
+
+const index = createRoomIndex(dataset, {
+  schedule: PERIOD_DEFINITIONS,
+  buildingHours: {
+    closingBufferMinutes: 10,
+    buildings: { MAT: { weekday: { open: "07:00", close: "21:00" } } },
+  },
+});
+
+describe("msUntilNextBoundary", () => {
+  it("wakes the stream when a building closes between periods", () => {
+    // Wednesday 8:30 PM Eastern, during period E2 (8:20–9:10 PM); the
+    // building stops counting as open at 8:50 PM.
+    const now = new Date("2025-10-22T20:30:00-04:00");
+    const context = getEasternContext(now);
+    assert.ok(context);
+    assert.equal(
+      msUntilNextBoundary(boundariesFor(index, context), context, now),
+      20 * 60 * 1000
+    );
+  });
+
+  it("waits until midnight after the last boundary", () => {
+    const now = new Date("2025-10-22T23:00:30-04:00");
+    const context = getEasternContext(now);
+    assert.ok(context);
+    assert.equal(
+      msUntilNextBoundary(boundariesFor(index, context), context, now),
+      60 * 60 * 1000 - 30 * 1000
+    );
+  });
+});
+
+function entry(day: string, period: string): PeriodEntry {
+  const { start, end } = PERIOD_DEFINITIONS[period];
+  return {
+    day,
+    period,
+    startTime: formatMinutes12(toMinutes(start)),
+    endTime: formatMinutes12(toMinutes(end)),
+    startMinutes: toMinutes(start),
+    endMinutes: toMinutes(end),
+  };
+}
+
+describe("diffRoomStatuses", () => {
+  const streamIndex = createRoomIndex(
+    {
+      ...dataset,
+      buildings: [
+        {
+          ...dataset.buildings[0],
+          rooms: [
+            {
+              number: "101",
+              amenities: [],
+              availability: {
+                "10": { periods: ["4", "5", "6"].map((p) => entry("W", p)) },
+              },
+            },
+            {
+              number: "102",
+              amenities: [],
+              availability: { "10": { periods: [entry("W", "4")] } },
+            },
+          ],
+        },
+      ],
+    },
+    { schedule: PERIOD_DEFINITIONS }
+  );
+  const statusesAt = (iso: string) =>
+    summarizeRoomStatuses(
+      queryRooms(streamIndex, {}, null, getEasternContext(new Date(iso)))
+    );
+
+  it("only re-sends rooms whose status changed at a boundary", () => {
+    // Period 4 ends at 11:30 AM: 101 stays free through period 6 and only
+    // its remaining minutes drop, while 102 becomes busy.
+    const { changed, removed } = diffRoomStatuses(
+      statusesAt("2025-10-22T10:50:00-04:00"),
+      statusesAt("2025-10-22T11:31:00-04:00")
+    );
+    assert.deepEqual(
+      changed.map((status) => status.id),
+      ["MAT-102"]
+    );
+    assert.equal(changed[0].isAvailableNow, false);
+    assert.deepEqual(removed, []);
+  });
+
+  it("reports rooms that left the scope as removed", () => {
+    const before = statusesAt("2025-10-22T10:50:00-04:00");
+    const after = new Map(before);
+    after.delete("MAT-102");
+    assert.deepEqual(diffRoomStatuses(before, after), {
+      changed: [],
+      removed: ["MAT-102"],
+    });
+  });
+});
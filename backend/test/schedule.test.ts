@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  DAY_SEQUENCE,
+  PERIOD_DEFINITIONS,
+  type BuildingAvailability,
+  type PeriodEntry,
+  type RoomAvailability,
+} from "../lib/availability.js";
+import type { BuildingHoursConfig } from "../lib/buildingHours.js";
+import { buildRoomSchedule } from "../lib/schedule.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+
+const BUSY: Record<string, string[]> = {
+  M: ["3", "4", "5"],
+  T: ["7"],
+  W: ["3", "4", "5"],
+  TH: ["7"],
+  F: ["3", "4", "5"],
+};
+
+function freePeriods(busy: Record<string, string[]>): PeriodEntry[] {
+  return DAY_SEQUENCE.flatMap((day) =>
+    Object.entries(PERIOD_DEFINITIONS)
+      .filter(([period]) => !(busy[day] ?? []).includes(period))
+      .map(([period, { start, end }]) => ({
+        day,
+        period,
+        startTime: formatMinutes12(toMinutes(start)),
+        endTime: formatMinutes12(toMinutes(end)),
+        startMinutes: toMinutes(start),
+        endMinutes: toMinutes(end),
+      }))
+  );
+}
+
+const ROOM: RoomAvailability = {
+  number: "0101",
+  amenities: [],
+  availability: {
+    "10": { periods: freePeriods(BUSY) },
+    "25": { periods: freePeriods({ ...BUSY, F: ["1"] }) },
+  },
+};
+
+const BUILDING: BuildingAvailability = {
+  id: "B1",
+  code: "MAT",
+  name: "Little Hall",
+  campusId: null,
+  lat: null,
+  lng: null,
+  rooms: [ROOM],
+};
+
+const HOURS: BuildingHoursConfig = {
+  closingBufferMinutes: 10,
+  default: {
+    weekday: { open: "07:00", close: "21:00" },
+    weekend: null,
+    holiday: null,
+  },
+  buildings: {},
+};
+
+function statuses(schedule: ReturnType<typeof buildRoomSchedule>, day: string) {
+  const entry = schedule.days.find((candidate) => candidate.day === day);
+  assert.ok(entry);
+  return Object.fromEntries(
+    entry.cells.map(({ period, status }) => [period, status])
+  );
+}
+
+describe("buildRoomSchedule", () => {
+  it("marks one size bucket's closed periods as busy", () => {
+    const schedule = buildRoomSchedule(BUILDING, ROOM, "10");
+    assert.equal(schedule.size, "10");
+    assert.deepEqual(
+      schedule.days.map(({ day }) => day),
+      DAY_SEQUENCE
+    );
+    const monday = statuses(schedule, "M");
+    assert.equal(monday["2"], "free");
+    assert.equal(monday["4"], "busy");
+    assert.equal(schedule.summary, "busy MWF 3–5; TR 7");
+  });
+
+  it("merges every size bucket when no size is given", () => {
+    const schedule = buildRoomSchedule(BUILDING, ROOM, null);
+    // Free periods are merged across buckets, and size 25 is open Friday 3–5.
+    assert.equal(statuses(schedule, "F")["4"], "free");
+    assert.equal(schedule.summary, "busy MW 3–5; TR 7");
+  });
+
+  it("marks periods outside building hours", () => {
+    const schedule = buildRoomSchedule(BUILDING, ROOM, "10", {
+      buildingHours: HOURS,
+    });
+    const monday = statuses(schedule, "M");
+    assert.equal(monday["E1"], "free");
+    assert.equal(monday["E2"], "outside");
+    assert.ok(
+      Object.values(statuses(schedule, "S")).every(
+        (status) => status === "outside"
+      )
+    );
+    assert.equal(schedule.summary, "busy MWF 3–5; TR 7");
+  });
+
+  it("reports a room with no busy periods as free all week", () => {
+    const room: RoomAvailability = {
+      number: "0102",
+      amenities: [],
+      availability: { "10": { periods: freePeriods({}) } },
+    };
+    assert.equal(
+      buildRoomSchedule(BUILDING, room, "10").summary,
+      "free all week"
+    );
+  });
+});
@@ -0,0 +1,237 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractAmenitySlugs } from "../lib/amenities.js";
+import {
+  PERIOD_DEFINITIONS,
+  type AvailabilityDataset,
+  type PeriodEntry,
+  type RoomAvailability,
+} from "../lib/availability.js";
+import {
+  findFreeSlots,
+  findGroupBookings,
+  findRecurringSlots,
+  parseDayPattern,
+  parseDuration,
+  parsePeriodRange,
+} from "../lib/search.js";
+import { formatMinutes12, toMinutes } from "../lib/time.js";
+
+function room(
+  number: string,
+  capacity: number,
+  free: Record<string, string[]>,
+  featureFlags: Record<string, boolean> = {}
+): RoomAvailability {
+  const periods: PeriodEntry[] = Object.entries(free).flatMap(
+    ([day, dayPeriods]) =>
+      dayPeriods.map((period) => {
+        const { start, end } = PERIOD_DEFINITIONS[period];
+        return {
+          day,
+          period,
+          startTime: formatMinutes12(toMinutes(start)),
+          endTime: formatMinutes12(toMinutes(end)),
+          startMinutes: toMinutes(start),
+          endMinutes: toMinutes(end),
+        };
+      })
+  );
+  return {
+    number,
+    amenities: extractAmenitySlugs(featureFlags),
+    metadata: {
+      capacity,
+      photo: null,
+      gallery: [],
+      featureFlags,
+      detailUrl: "",
+    },
+    availability: { "10": { periods } },
+  };
+}
+
+function building(id: string, code: string, rooms: RoomAvailability[]) {
+  return { id, code, name: code, campusId: null, lat: null, lng: null, rooms };
+}
+
+const DATASET: AvailabilityDataset = {
+  fetchedAt: "2025-10-20T00:00:00Z",
+  term: "Fall 2025",
+  classSizes: ["10"],
+  buildings: [
+    building("B1", "MAT", [
+      room("0101", 40, { M: ["4"], W: ["4", "5"] }, { projector: true }),
+      room("0102", 20, { M: ["4"], W: ["4"], F: ["4"] }),
+    ]),
+    building("B2", "LIT", [room("0201", 100, { W: ["6", "7"] })]),
+  ],
+};
+
+// Wednesday 2025-10-22.
+const WEDNESDAY = { dayCode: "W", date: "2025-10-22" };
+
+describe("parseDuration", () => {
+  it("reads minutes and hour/minute units", () => {
+    ["90", "1h30m", "1.5h", "90min"].forEach((value) => {
+      assert.equal(parseDuration(value), 90, value);
+    });
+    assert.equal(parseDuration("2h"), 120);
+  });
+
+  it("rejects empty, zero and unreadable durations", () => {
+    ["0", "", "h", "soon"].forEach((value) => {
+      assert.equal(parseDuration(value), null, value);
+    });
+  });
+});
+
+describe("findFreeSlots", () => {
+  const search = (query: Partial<Parameters<typeof findFreeSlots>[1]>) =>
+    findFreeSlots(DATASET, {
+      durationMinutes: 60,
+      ...WEDNESDAY,
+      afterMinutes: 0,
+      beforeMinutes: 24 * 60,
+      ...query,
+    });
+
+  it("returns merged blocks long enough for the duration, earliest first", () => {
+    assert.deepEqual(
+      search({}).map(({ room, window }) => [
+        room.id,
+        window.startTime,
+        window.endTime,
+      ]),
+      [
+        ["MAT-0101", "10:40 AM", "12:35 PM"],
+        ["LIT-0201", "12:50 PM", "2:45 PM"],
+      ]
+    );
+  });
+
+  it("clips windows to the after/before bounds", () => {
+    const [first] = search({ afterMinutes: toMinutes("11:00") });
+    assert.equal(first.room.id, "MAT-0101");
+    assert.equal(first.window.startTime, "11:00 AM");
+    assert.equal(first.window.freeMinutes, 95);
+    assert.deepEqual(first.window.periods, ["4", "5"]);
+
+    assert.deepEqual(
+      search({ afterMinutes: toMinutes("11:45") }).map(({ room }) => room.id),
+      ["LIT-0201"]
+    );
+  });
+
+  it("filters by capacity, amenities and building", () => {
+    const ids = (query: Parameters<typeof search>[0]) =>
+      search({ durationMinutes: 30, ...query }).map(({ room }) => room.id);
+    assert.deepEqual(ids({ minCapacity: 50 }), ["LIT-0201"]);
+    assert.deepEqual(ids({ amenities: ["projector"] }), ["MAT-0101"]);
+    assert.deepEqual(ids({ buildingCode: "mat" }), ["MAT-0101", "MAT-0102"]);
+  });
+});
+
+describe("parseDayPattern", () => {
+  it("reads registrar shorthand and lists", () => {
+    assert.deepEqual(parseDayPattern("MWF"), ["M", "W", "F"]);
+    assert.deepEqual(parseDayPattern("TR"), ["T", "TH"]);
+    assert.deepEqual(parseDayPattern("m, th"), ["M", "TH"]);
+  });
+
+  it("throws a RangeError on unknown days", () => {
+    assert.throws(() => parseDayPattern("MXF"), RangeError);
+    assert.throws(() => parseDayPattern(" "), RangeError);
+  });
+});
+
+describe("parsePeriodRange", () => {
+  it("expands ranges in schedule order", () => {
+    assert.deepEqual(parsePeriodRange("10-E1", PERIOD_DEFINITIONS), [
+      "10",
+      "11",
+      "E1",
+    ]);
+    assert.deepEqual(parsePeriodRange("5,4", PERIOD_DEFINITIONS), ["4", "5"]);
+  });
+
+  it("throws a RangeError on unknown or backwards ranges", () => {
+    assert.throws(() => parsePeriodRange("E4", PERIOD_DEFINITIONS), RangeError);
+    assert.throws(
+      () => parsePeriodRange("6-4", PERIOD_DEFINITIONS),
+      RangeError
+    );
+  });
+});
+
+describe("findRecurringSlots", () => {
+  const ids = (matches: Array<{ room: { id: string } }>) =>
+    matches.map(({ room }) => room.id);
+
+  it("matches rooms free for the periods on every requested day", () => {
+    const { matches, nearMisses } = findRecurringSlots(DATASET, {
+      days: ["M", "W"],
+      periods: ["4"],
+    });
+    assert.deepEqual(ids(matches), ["MAT-0101", "MAT-0102"]);
+    assert.deepEqual(nearMisses, []);
+  });
+
+  it("reports rooms that miss exactly one day as near misses", () => {
+    const { matches, nearMisses } = findRecurringSlots(DATASET, {
+      days: ["M", "W", "F"],
+      periods: ["4"],
+    });
+    assert.deepEqual(ids(matches), ["MAT-0102"]);
+    assert.deepEqual(ids(nearMisses), ["MAT-0101"]);
+    assert.deepEqual(nearMisses[0].missedDays, ["F"]);
+  });
+});
+
+describe("findGroupBookings", () => {
+  // Period 4 on Wednesday, 10:40-11:30 AM.
+  const PERIOD_4 = { ...WEDNESDAY, startMinutes: 640, endMinutes: 690 };
+
+  it("suggests the largest free rooms in one building", () => {
+    const [option, ...rest] = findGroupBookings(DATASET, {
+      ...PERIOD_4,
+      roomCount: 2,
+    });
+    assert.equal(rest.length, 0);
+    assert.equal(option.building.code, "MAT");
+    assert.equal(option.availableRoomCount, 2);
+    assert.equal(option.totalCapacity, 60);
+    assert.deepEqual(
+      option.suggestedRooms.map(({ id }) => id),
+      ["MAT-0101", "MAT-0102"]
+    );
+  });
+
+  it("ranks buildings by the capacity of the suggested rooms", () => {
+    const dataset: AvailabilityDataset = {
+      ...DATASET,
+      buildings: [
+        building("B3", "ZOO", [room("0301", 30, { W: ["4"] })]),
+        ...DATASET.buildings,
+      ],
+    };
+    const options = findGroupBookings(dataset, { ...PERIOD_4, roomCount: 1 });
+    assert.deepEqual(
+      options.map(({ building, totalCapacity }) => [
+        building.code,
+        totalCapacity,
+      ]),
+      [
+        ["MAT", 40],
+        ["ZOO", 30],
+      ]
+    );
+  });
+
+  it("skips buildings without enough free rooms", () => {
+    assert.deepEqual(
+      findGroupBookings(DATASET, { ...PERIOD_4, roomCount: 3 }),
+      []
+    );
+  });
+});
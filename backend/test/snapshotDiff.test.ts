@@ -0,0 +1,128 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type {
+  AvailabilityDataset,
+  BuildingAvailability,
+  PeriodEntry,
+  RoomAvailability,
+} from "../lib/availability.js";
+import { diffDatasets } from "../lib/snapshotDiff.js";
+
+function entry(day: string, period: string): PeriodEntry {
+  return {
+    day,
+    period,
+    startTime: "",
+    endTime: "",
+    startMinutes: 0,
+    endMinutes: 0,
+  };
+}
+
+function metadata(capacity: number): NonNullable<RoomAvailability["metadata"]> {
+  return {
+    capacity,
+    photo: null,
+    gallery: [],
+    featureFlags: {},
+    detailUrl: "https://example.edu/rooms/0101",
+  };
+}
+
+function building(
+  id: string,
+  rooms: BuildingAvailability["rooms"]
+): BuildingAvailability {
+  return {
+    id,
+    code: id,
+    name: `${id} Hall`,
+    campusId: null,
+    lat: null,
+    lng: null,
+    rooms,
+  };
+}
+
+function dataset(buildings: BuildingAvailability[]): AvailabilityDataset {
+  return {
+    fetchedAt: "2025-10-02T12:00:00Z",
+    term: "Fall 2025",
+    classSizes: ["10", "25"],
+    buildings,
+  };
+}
+
+const BEFORE = dataset([
+  building("MAT", [
+    {
+      number: "0101",
+      amenities: [],
+      metadata: metadata(30),
+      availability: { "10": { periods: [entry("M", "3"), entry("M", "4")] } },
+    },
+    { number: "0102", amenities: [], availability: {} },
+  ]),
+  building("OLD", [{ number: "0001", amenities: [], availability: {} }]),
+]);
+
+describe("diffDatasets", () => {
+  it("reports no changes between identical versions", () => {
+    const diff = diffDatasets(BEFORE, BEFORE);
+    assert.ok(Object.values(diff.summary).every((count) => count === 0));
+    assert.deepEqual(diff.periods, []);
+    assert.deepEqual(diff.metadata, []);
+  });
+
+  it("lists buildings, rooms, free periods and metadata that changed", () => {
+    const after = dataset([
+      building("MAT", [
+        {
+          number: "0101",
+          amenities: [],
+          metadata: metadata(40),
+          availability: {
+            "10": { periods: [entry("M", "4")] },
+            "25": { periods: [entry("T", "2")] },
+          },
+        },
+        { number: "0103", amenities: [], availability: {} },
+      ]),
+      building("NEW", [{ number: "0001", amenities: [], availability: {} }]),
+    ]);
+    const diff = diffDatasets(BEFORE, after);
+
+    assert.deepEqual(diff.summary, {
+      buildingsAdded: 1,
+      buildingsRemoved: 1,
+      roomsAdded: 2,
+      roomsRemoved: 2,
+      roomsWithPeriodChanges: 1,
+      periodsAdded: 1,
+      periodsRemoved: 1,
+      roomsWithMetadataChanges: 1,
+    });
+    assert.deepEqual(
+      diff.rooms.added.map((room) => room.id),
+      ["MAT-0103", "NEW-0001"]
+    );
+    assert.deepEqual(
+      diff.rooms.removed.map((room) => room.id),
+      ["MAT-0102", "OLD-0001"]
+    );
+    assert.deepEqual(diff.periods[0].added, [{ day: "T", period: "2" }]);
+    assert.deepEqual(diff.periods[0].removed, [{ day: "M", period: "3" }]);
+    assert.deepEqual(diff.metadata[0].changes, [
+      { field: "capacity", from: 30, to: 40 },
+    ]);
+  });
+
+  it("matches rooms by building ID across a building rename", () => {
+    const renamed = dataset(
+      BEFORE.buildings.map((item) => ({ ...item, name: "Renamed Hall" }))
+    );
+    const diff = diffDatasets(BEFORE, renamed);
+    assert.equal(diff.summary.roomsAdded, 0);
+    assert.equal(diff.summary.roomsRemoved, 0);
+  });
+});
@@ -0,0 +1,213 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { PERIOD_DEFINITIONS, resolveTimeContext } from "../lib/availability.js";
+import { isIsoDate } from "../lib/calendar.js";
+import { createRouteSchemas, validateRequest } from "../lib/validation.js";
+
+const schemas = createRouteSchemas({
+  classSizes: ["10", "25", "50"],
+  schedule: PERIOD_DEFINITIONS,
+  terms: ["Fall 2025"],
+});
+
+function validateDay(day: string) {
+  return validateRequest(schemas.roomsOpen, { params: {}, query: { day } });
+}
+
+describe("validateRequest", () => {
+  it("returns parsed params and query values", () => {
+    const result = validateRequest(schemas.roomsOpen, {
+      params: {},
+      query: { size: "25", periods: ["4", "e1"], buildingCode: "" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.equal(result.query.size, "25");
+      assert.deepEqual([...(result.query.periods ?? [])], ["4", "E1"]);
+      assert.equal(result.query.buildingCode, undefined);
+    }
+
+    const room = validateRequest(schemas.room, {
+      params: { id: "and_13" },
+      query: {},
+    });
+    assert.equal(room.success, true);
+    if (room.success) {
+      assert.deepEqual(room.params.id, {
+        buildingCode: "AND",
+        roomNumber: "0013",
+      });
+    }
+  });
+
+  it("lists every param and query issue in one body", () => {
+    const result = validateRequest(schemas.roomSchedule, {
+      params: { id: "not a room" },
+      query: { size: "30" },
+    });
+    assert.equal(result.success, false);
+    if (!result.success) {
+      assert.equal(result.body.error, "Invalid request parameters.");
+      assert.deepEqual(
+        result.body.issues.map((issue) => [issue.in, issue.field]),
+        [
+          ["params", "id"],
+          ["query", "size"],
+        ]
+      );
+    }
+  });
+
+  it("reports lib parser errors on the field", () => {
+    const result = validateRequest(schemas.searchRecurring, {
+      params: {},
+      query: { days: "MWF", periods: "6-4" },
+    });
+    assert.equal(result.success, false);
+    if (!result.success) {
+      assert.deepEqual(
+        result.body.issues.map((issue) => issue.field),
+        ["periods"]
+      );
+    }
+  });
+
+  it("requires a group window that ends after it starts", () => {
+    const result = validateRequest(schemas.searchGroup, {
+      params: {},
+      query: { count: "2", start: "2pm", end: "1pm" },
+    });
+    assert.equal(result.success, false);
+    if (!result.success) {
+      assert.deepEqual(
+        result.body.issues.map((issue) => issue.field),
+        ["end"]
+      );
+    }
+  });
+});
+
+describe("day validation", () => {
+  it("accepts weekdays and real calendar dates", () => {
+    ["TH", "thursday", "2025-10-23", "2028-02-29"].forEach((day) => {
+      assert.equal(validateDay(day).success, true, day);
+    });
+  });
+
+  it("rejects impossible dates instead of rolling them over", () => {
+    ["2025-13-01", "2025-02-30", "2025-02-29", "2025-04-31"].forEach((day) => {
+      const result = validateDay(day);
+      assert.equal(result.success, false, day);
+      if (!result.success) {
+        assert.deepEqual(
+          result.body.issues.map((issue) => issue.field),
+          ["day"]
+        );
+      }
+    });
+  });
+
+  it("applies to the search routes", () => {
+    const result = validateRequest(schemas.searchSlots, {
+      params: {},
+      query: { duration: "60", day: "2025-02-30" },
+    });
+    assert.equal(result.success, false);
+  });
+
+  it("is enforced by resolveTimeContext as well", () => {
+    assert.equal(isIsoDate("2025-02-30"), false);
+    assert.throws(() => resolveTimeContext({ day: "2025-02-30" }), RangeError);
+    assert.equal(
+      resolveTimeContext({ day: "2025-10-23", time: "10:50" })?.date,
+      "2025-10-23"
+    );
+  });
+});
+
+describe("term validation", () => {
+  it("matches loaded terms case-insensitively", () => {
+    const result = validateRequest(schemas.buildings, {
+      params: {},
+      query: { term: " fall 2025" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) assert.equal(result.query.term, "Fall 2025");
+  });
+
+  it("rejects terms that are not loaded", () => {
+    const result = validateRequest(schemas.searchSlots, {
+      params: {},
+      query: { duration: "60", term: "Spring 2099" },
+    });
+    assert.equal(result.success, false);
+    if (!result.success) {
+      assert.deepEqual(
+        result.body.issues.map((issue) => issue.field),
+        ["term"]
+      );
+      assert.match(result.body.issues[0].message, /Fall 2025/);
+    }
+  });
+});
+
+describe("amenity validation", () => {
+  it("maps aliases onto canonical slugs", () => {
+    const result = validateRequest(schemas.roomsOpen, {
+      params: {},
+      query: { amenities: "Whiteboard,projector-hd,projector" },
+    });
+    assert.equal(result.success, true);
+    if (result.success) {
+      assert.deepEqual(result.query.amenities, ["chalkboard", "projector"]);
+    }
+  });
+
+  it("rejects unknown slugs with a structured 400 body", () => {
+    [schemas.roomsOpen, schemas.roomsStream].forEach((schema) => {
+      const result = validateRequest(schema, {
+        params: {},
+        query: { amenities: "projectr,ada" },
+      });
+      assert.equal(result.success, false);
+      if (!result.success) {
+        assert.equal(result.body.error, "Invalid request parameters.");
+        assert.equal(result.body.issues.length, 1);
+        assert.equal(result.body.issues[0].field, "amenities");
+        assert.match(result.body.issues[0].message, /"projectr"/);
+      }
+    });
+    const slots = validateRequest(schemas.searchSlots, {
+      params: {},
+      query: { duration: "60", amenities: "projectr" },
+    });
+    assert.equal(slots.success, false);
+  });
+});
+
+describe("roomsStream validation", () => {
+  it("takes the same room filters as /api/rooms/open", () => {
+    const query = {
+      amenities: "projector",
+      minCapacity: "30",
+      maxCapacity: "60",
+    };
+    const open = validateRequest(schemas.roomsOpen, { params: {}, query });
+    const stream = validateRequest(schemas.roomsStream, { params: {}, query });
+    assert.equal(open.success, true);
+    assert.equal(stream.success, true);
+    if (open.success && stream.success) {
+      assert.deepEqual(stream.query.amenities, open.query.amenities);
+      assert.equal(stream.query.minCapacity, 30);
+      assert.equal(stream.query.maxCapacity, 60);
+    }
+  });
+
+  it("rejects an inverted capacity range", () => {
+    const result = validateRequest(schemas.roomsStream, {
+      params: {},
+      query: { minCapacity: "60", maxCapacity: "30" },
+    });
+    assert.equal(result.success, false);
+  });
+});
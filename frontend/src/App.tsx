@@ -8,9 +8,12 @@ import type {
   RoomAvailability,
   RoomsResponse,
   SizeAvailability,
+  TermSummary,
 } from "./types.ts";
 import StudyContainer from "./StudyContainer";
+import RecurringSearch from "./components/RecurringSearch";
 import { filterRooms } from "./utils/roomFilters";
+import { applyRoomStatuses } from "./utils/roomStatus";
 import logoUrl from "./assets/Logo.svg";
 import { fetchStudyRooms } from "./api/studyRooms";
 import ADAIcon from "./assets/ADA.svg";
@@ -18,6 +21,30 @@ import ChalkboardIcon from "./assets/Chalkboard.svg";
 import PowerIcon from "./assets/Power.svg";
 import ProjectorIcon from "./assets/Projector.svg";
 
+// Everything the room list and map render; skips the photo gallery.
+const ROOM_FIELDS = [
+  "availability",
+  "metadata.capacity",
+  "metadata.photo",
+  "metadata.featureFlags",
+  "metadata.detailUrl",
+];
+
+// Counts for the filter panel: amenity badges, the slider range and the
+// "Available Now" total.
+const ROOM_FACETS = ["amenities", "capacity", "availability"] as const;
+
+const PERIOD_DAY_OPTIONS = [
+  { code: "M", label: "Monday" },
+  { code: "T", label: "Tuesday" },
+  { code: "W", label: "Wednesday" },
+  { code: "R", label: "Thursday" },
+  { code: "F", label: "Friday" },
+];
+
+// Slider ceiling until the first response reports the real largest room.
+const DEFAULT_MAX_CAPACITY = 700;
+
 const DEFAULT_STATE: RoomsResponse = {
   fetchedAt: "",
   term: "",
@@ -25,49 +52,6 @@ const DEFAULT_STATE: RoomsResponse = {
   buildings: [],
 };
 
-const AMENITY_CANONICAL_MAP: Record<string, string> = {
-  ada: "ada",
-  accessibility: "ada",
-  accessible: "ada",
-  "ada-accessible": "ada",
-  ada_accessible: "ada",
-  wheelchair: "ada",
-  chalkboard: "chalkboard",
-  whiteboard: "chalkboard",
-  "white-board": "chalkboard",
-  dryerase: "chalkboard",
-  "dry-erase": "chalkboard",
-  dry_erase: "chalkboard",
-  markerboard: "chalkboard",
-  whiteboardmobile: "chalkboard",
-  whiteboard_or_chalkboard: "chalkboard",
-  power: "power",
-  outlets: "power",
-  "power-outlets": "power",
-  power_outlets: "power",
-  electric: "power",
-  byod: "power",
-  "byod-friendly": "power",
-  charging: "power",
-  student_byod_power: "power",
-  projector: "projector",
-  projectors: "projector",
-  "projector-hd": "projector",
-  "projector-dual": "projector",
-  "projector-3": "projector",
-  "projector-4": "projector",
-  projector_hd: "projector",
-  projector_dual: "projector",
-  "rear-projector": "projector",
-};
-
-const AMENITY_DISPLAY_ORDER: string[] = [
-  "ada",
-  "chalkboard",
-  "power",
-  "projector",
-];
-
 const AMENITY_FILTER_OPTIONS: Array<{
   slug: string;
   label: string;
@@ -96,6 +80,17 @@ function pickNextAvailability(
   return candidates.length > 0 ? candidates[0] : null;
 }
 
+function pickOpenUntil(
+  availability: Record<string, SizeAvailability>
+): string | null {
+  const current = Object.values(availability)
+    .filter((record) => record.isAvailableNow && record.openUntil)
+    .sort(
+      (a, b) => (b.freeMinutesRemaining ?? 0) - (a.freeMinutesRemaining ?? 0)
+    );
+  return current.length > 0 ? current[0].openUntil ?? null : null;
+}
+
 function deriveCapacityFromSizes(sizeKeys: string[]): number | null {
   const numericSizes = sizeKeys
     .map((value) => Number(value))
@@ -108,23 +103,6 @@ function deriveCapacityFromSizes(sizeKeys: string[]): number | null {
   return Math.max(...numericSizes);
 }
 
-function extractAmenitySlugs(
-  featureFlags: Record<string, boolean> | undefined
-): string[] {
-  if (!featureFlags) return [];
-
-  const normalized = new Set<string>();
-  Object.entries(featureFlags).forEach(([rawKey, isEnabled]) => {
-    if (!isEnabled) return;
-    const canonical = AMENITY_CANONICAL_MAP[rawKey.toLowerCase()];
-    if (canonical) {
-      normalized.add(canonical);
-    }
-  });
-
-  return AMENITY_DISPLAY_ORDER.filter((slug) => normalized.has(slug));
-}
-
 function buildDisplayRooms(dataset: RoomsResponse): DisplayRoom[] {
   const { fetchedAt, buildings } = dataset;
   const rooms: DisplayRoom[] = [];
@@ -149,7 +127,7 @@ function buildDisplayRooms(dataset: RoomsResponse): DisplayRoom[] {
         isSizeAvailable(room.availability[key])
       );
       const nextAvailable = pickNextAvailability(room.availability);
-      const amenities = extractAmenitySlugs(room.metadata?.featureFlags);
+      const openUntil = pickOpenUntil(room.availability);
       const derivedCapacity =
         room.metadata?.capacity ?? deriveCapacityFromSizes(sizeKeys);
 
@@ -162,11 +140,12 @@ function buildDisplayRooms(dataset: RoomsResponse): DisplayRoom[] {
         lat: building.lat,
         lng: building.lng,
         capacity: derivedCapacity,
-        amenities,
+        amenities: room.amenities,
         sizeKeys,
         availability: room.availability,
         isAvailableNow,
         nextAvailable,
+        openUntil,
         fetchedAt,
         detailUrl: room.metadata?.detailUrl ?? null,
         photo: room.metadata?.photo ?? null,
@@ -180,14 +159,48 @@ function buildDisplayRooms(dataset: RoomsResponse): DisplayRoom[] {
 const App = () => {
   const [data, setData] = useState<RoomsResponse>(DEFAULT_STATE);
   const [minCapacity, setMinCapacity] = useState<number>(1);
+  // Trails the slider so dragging it doesn't refetch on every step.
+  const [capacityFilter, setCapacityFilter] = useState<number>(1);
   const [query, setQuery] = useState<string>("");
   const [selectedAmenities, setSelectedAmenities] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isFilterOpen, setIsFilterOpen] = useState<boolean>(true);
-  const [periods, setPeriods] = useState<Array<number>>([]);
+  const [isRecurringOpen, setIsRecurringOpen] = useState<boolean>(false);
+  const [periods, setPeriods] = useState<string[]>([]);
+  // Empty means any weekday.
+  const [periodDay, setPeriodDay] = useState<string>("");
+  const [matchAllPeriods, setMatchAllPeriods] = useState<boolean>(false);
   const [showAvailableOnly, setShowAvailableOnly] = useState<boolean>(false);
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+  const [terms, setTerms] = useState<TermSummary[]>([]);
+  // Empty until the user picks a term; the backend then serves today's term.
+  const [term, setTerm] = useState<string>("");
+  // Bumped when the server loads a new dataset, to refetch the room list.
+  const [datasetRevision, setDatasetRevision] = useState<number>(0);
+
+  useEffect(() => {
+    fetchStudyRooms
+      .terms()
+      .then((payload) => setTerms(payload.terms))
+      .catch((error) => console.error("Failed to fetch terms", error));
+  }, []);
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setCapacityFilter(minCapacity), 300);
+    return () => window.clearTimeout(timer);
+  }, [minCapacity]);
+
+  const periodParams = useMemo(
+    () => ({
+      ...(periods.length ? { periods } : {}),
+      ...(periodDay ? { days: periodDay } : {}),
+      ...(periodDay && periods.length && matchAllPeriods
+        ? { match: "all" as const }
+        : {}),
+    }),
+    [periods, periodDay, matchAllPeriods]
+  );
 
   useEffect(() => {
     let isMounted = true;
@@ -198,9 +211,14 @@ const App = () => {
         if (isMounted) {
           setError(null);
         }
-        const payload = await fetchStudyRooms.rooms(
-          periods.length ? { periods } : {}
-        );
+        const payload = await fetchStudyRooms.rooms({
+          fields: ROOM_FIELDS,
+          facets: [...ROOM_FACETS],
+          ...periodParams,
+          ...(selectedAmenities.length ? { amenities: selectedAmenities } : {}),
+          ...(capacityFilter > 1 ? { minCapacity: capacityFilter } : {}),
+          ...(term ? { term } : {}),
+        });
         if (isMounted) {
           setData(payload);
         }
@@ -221,9 +239,34 @@ const App = () => {
     return () => {
       isMounted = false;
     };
-  }, [periods]);
+  }, [periodParams, selectedAmenities, capacityFilter, term, datasetRevision]);
+
+  // Keeps "Open now" badges current while the tab stays open.
+  useEffect(
+    () =>
+      fetchStudyRooms.streamStatus(
+        {
+          ...periodParams,
+          ...(selectedAmenities.length ? { amenities: selectedAmenities } : {}),
+          ...(capacityFilter > 1 ? { minCapacity: capacityFilter } : {}),
+          ...(term ? { term } : {}),
+        },
+        {
+          onSnapshot: (event) =>
+            setData((current) => applyRoomStatuses(current, event.rooms)),
+          onStatus: (event) => {
+            if (event.reason === "dataset") {
+              setDatasetRevision((revision) => revision + 1);
+              return;
+            }
+            setData((current) => applyRoomStatuses(current, event.changed));
+          },
+        }
+      ),
+    [periodParams, selectedAmenities, capacityFilter, term]
+  );
 
-  const periodPressed = (period: number) => {
+  const periodPressed = (period: string) => {
     setPeriods((prev) =>
       prev.includes(period)
         ? prev.filter((p) => p !== period)
@@ -237,14 +280,8 @@ const App = () => {
   );
 
   const filteredRooms: DisplayRoom[] = useMemo(() => {
-    return filterRooms(
-      displayRooms,
-      query,
-      minCapacity,
-      selectedAmenities,
-      showAvailableOnly
-    );
-  }, [displayRooms, minCapacity, query, selectedAmenities, showAvailableOnly]);
+    return filterRooms(displayRooms, query, showAvailableOnly);
+  }, [displayRooms, query, showAvailableOnly]);
 
   useEffect(() => {
     if (
@@ -264,6 +301,14 @@ const App = () => {
     return { total, available };
   }, [filteredRooms]);
 
+  const facets = data.facets;
+  const maxCapacity = facets?.capacity?.max ?? DEFAULT_MAX_CAPACITY;
+
+  // A term with smaller rooms shouldn't leave the slider past its end.
+  useEffect(() => {
+    setMinCapacity((current) => Math.min(current, maxCapacity));
+  }, [maxCapacity]);
+
   const handleQueryChange = (event: ChangeEvent<HTMLInputElement>) => {
     setQuery(event.target.value);
   };
@@ -281,56 +326,6 @@ const App = () => {
     );
   };
 
-  function formatMinutesTo12HourTime(totalMinutes: number): string {
-    // 1. Handle potential overflow past 24 hours (1440 minutes)
-    const minutesSinceMidnight = totalMinutes % 1440;
-
-    // 2. Calculate the 24-hour hours (0-23) and remaining minutes
-    const hours24 = Math.floor(minutesSinceMidnight / 60);
-    const minutes = minutesSinceMidnight % 60;
-
-    // 3. Determine the AM/PM suffix
-    const suffix = hours24 >= 12 ? "PM" : "AM";
-
-    // 4. Convert 24-hour hour to 12-hour hour:
-    //    - 0 (midnight) -> 12
-    //    - 1-11 -> 1-11
-    //    - 12 (noon) -> 12
-    //    - 13-23 -> 1-11
-    const hours12 = hours24 % 12 || 12; // Modulo 12, treating 0 as 12
-
-    // 5. Format the hours (no zero-padding for 12-hour hours, e.g., "9:30 AM" not "09:30 AM")
-    const formattedHours = String(hours12);
-
-    // 6. Format minutes with zero-padding
-    const formattedMinutes = String(minutes).padStart(2, "0");
-
-    return `${formattedHours}:${formattedMinutes} ${suffix}`;
-  }
-
-  // --- Main Function ---
-
-  /**
-   * Calculates the start and end times for a given interval index (i),
-   * based on the formulas (445 + i*65) and (445 + i*65 + 50),
-   * and returns them formatted as "{HH:MM} - {HH:MM}".
-   *
-   * @param i The index of the interval (0, 1, 2, ...).
-   * @returns The formatted time range string (e.g., "07:25 - 08:15").
-   */
-  function calculateTimeRange(i: number): string {
-    // 1. Calculate the total minutes for the start and end points
-    const startMinutes = 445 + i * 65;
-    const endMinutes = startMinutes + 50;
-
-    // 2. Format both minute counts into "HH:MM" strings
-    const startTimeString = formatMinutesTo12HourTime(startMinutes);
-    const endTimeString = formatMinutesTo12HourTime(endMinutes);
-
-    // 3. Return the result in the requested format
-    return `${startTimeString} - ${endTimeString}`;
-  }
-
   return (
     <div className="flex min-h-screen flex-col bg-slate-50 lg:grid lg:grid-cols-[420px_1fr]">
       <aside className="border-b border-slate-200 bg-white/80 backdrop-blur lg:h-screen lg:border-b-0 lg:border-r">
@@ -342,6 +337,22 @@ const App = () => {
                 <h1 className="text-xl font-semibold text-slate-900">
                   Freerooms@<span className="text-blue-400">UF</span>
                 </h1>
+                {terms.length > 1 ? (
+                  <select
+                    value={term || data.term}
+                    onChange={(event) => setTerm(event.target.value)}
+                    className="mt-0.5 rounded border border-slate-200 px-1 py-0.5 text-xs text-slate-600"
+                    aria-label="Term"
+                  >
+                    {terms.map((entry) => (
+                      <option key={entry.term} value={entry.term}>
+                        {entry.term}
+                      </option>
+                    ))}
+                  </select>
+                ) : data.term ? (
+                  <p className="text-xs text-slate-500">{data.term}</p>
+                ) : null}
               </span>
             </span>
             <div className="text-right">
@@ -400,7 +411,7 @@ const App = () => {
                     id="capacity-range"
                     type="range"
                     min={1}
-                    max={700}
+                    max={maxCapacity}
                     value={minCapacity}
                     onChange={handleMinCapacityChange}
                     className="w-full accent-slate-600 mr-2 appearance-auto"
@@ -414,7 +425,9 @@ const App = () => {
                     stroke="currentColor"
                     className="size-4 stroke-4"
                     onClick={() =>
-                      minCapacity < 700 ? setMinCapacity(minCapacity + 1) : null
+                      minCapacity < maxCapacity
+                        ? setMinCapacity(minCapacity + 1)
+                        : null
                     }
                   >
                     <path
@@ -450,18 +463,23 @@ const App = () => {
                       const isSelected = selectedAmenities.includes(
                         option.slug
                       );
+                      const count = facets?.amenities?.[option.slug];
                       return (
                         <button
                           key={option.slug}
                           type="button"
                           onClick={() => toggleAmenityFilter(option.slug)}
-                          className={`flex h-10 w-10 items-center justify-center rounded-full border transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
+                          className={`relative flex h-10 w-10 items-center justify-center rounded-full border transition focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
                             isSelected
                               ? "border-blue-500 bg-blue-50 shadow-sm"
                               : "border-slate-200 bg-white hover:border-slate-300 hover:bg-slate-50"
                           }`}
                           aria-pressed={isSelected}
-                          aria-label={option.label}
+                          aria-label={
+                            count === undefined
+                              ? option.label
+                              : `${option.label} (${count} rooms)`
+                          }
                           title={option.label}
                         >
                           <img
@@ -470,6 +488,14 @@ const App = () => {
                             aria-hidden="true"
                             className="h-5 w-5"
                           />
+                          {count !== undefined ? (
+                            <span
+                              aria-hidden="true"
+                              className="absolute -right-1 -top-1 min-w-[1.25rem] rounded-full bg-slate-700 px-1 text-center text-[10px] font-semibold leading-4 text-white"
+                            >
+                              {count}
+                            </span>
+                          ) : null}
                         </button>
                       );
                     })}
@@ -478,6 +504,12 @@ const App = () => {
                 <div className="flex items-center gap-3">
                   <span className="text-sm font-medium text-slate-700">
                     Available Now
+                    {facets?.availability ? (
+                      <span className="ml-1 text-xs font-normal text-slate-500">
+                        ({facets.availability.openNow} open,{" "}
+                        {facets.availability.laterToday} later today)
+                      </span>
+                    ) : null}
                   </span>
                   <button
                     type="button"
@@ -502,21 +534,49 @@ const App = () => {
                   </button>
                 </div>
                 <div>
-                  <span className="text-sm font-medium text-slate-700">
-                    Periods
-                  </span>
+                  <div className="mb-2 flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-slate-700">
+                      Periods
+                    </span>
+                    <select
+                      value={periodDay}
+                      onChange={(event) => setPeriodDay(event.target.value)}
+                      className="rounded border border-slate-200 bg-white px-1 py-0.5 text-xs text-slate-600"
+                      aria-label="Day for period filter"
+                    >
+                      <option value="">Any day</option>
+                      {PERIOD_DAY_OPTIONS.map((option) => (
+                        <option key={option.code} value={option.code}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  {periodDay && periods.length > 1 ? (
+                    <label className="mb-2 flex items-center gap-2 text-xs text-slate-600">
+                      <input
+                        type="checkbox"
+                        checked={matchAllPeriods}
+                        onChange={(event) =>
+                          setMatchAllPeriods(event.target.checked)
+                        }
+                      />
+                      Free for every selected period
+                    </label>
+                  ) : null}
                   <div className="grid grid-cols-2 justify-center gap-1">
-                    {Array.from({ length: 10 }, (_, i) => (
+                    {(data.periodSchedule ?? []).map((slot) => (
                       <button
-                        key={i}
+                        key={slot.period}
                         className={`px-2 py-1 text-xs bg-slate-200 rounded hover:bg-slate-300 ${
-                          periods.includes(i + 1)
+                          periods.includes(slot.period)
                             ? "bg-slate-400 text-white"
                             : ""
                         }`}
-                        onClick={() => periodPressed(i + 1)}
+                        onClick={() => periodPressed(slot.period)}
+                        title={`Period ${slot.period}`}
                       >
-                        {calculateTimeRange(i)}
+                        {slot.startTime} - {slot.endTime}
                       </button>
                     ))}
                   </div>
@@ -525,6 +585,31 @@ const App = () => {
             ) : null}
           </section>
 
+          <section className="px-6 pb-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-slate-700">
+                Weekly slots
+              </h2>
+              <button
+                type="button"
+                className="text-xs font-medium text-slate-500 hover:text-slate-700"
+                onClick={() => setIsRecurringOpen((prev) => !prev)}
+                aria-expanded={isRecurringOpen}
+              >
+                {isRecurringOpen ? "Hide" : "Show"}
+              </button>
+            </div>
+            {isRecurringOpen ? (
+              <div className="mt-4">
+                <RecurringSearch
+                  periodSchedule={data.periodSchedule ?? []}
+                  term={term || undefined}
+                  onSelectRoom={setSelectedRoomId}
+                />
+              </div>
+            ) : null}
+          </section>
+
           {error ? (
             <div className="px-6 pb-6 text-sm text-red-600">
               Unable to load rooms: {error}
@@ -576,6 +661,7 @@ const App = () => {
         <MapView
           rooms={filteredRooms}
           selectedRoomId={selectedRoomId}
+          term={term || undefined}
           onRoomFocus={setSelectedRoomId}
         />
       </main>
@@ -0,0 +1,95 @@
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import BuildingOverview from "./components/BuildingOverview";
+import { useBuildingDetail } from "./hooks/useBuildingDetail";
+import { describeRoomStatus } from "./utils/roomStatus";
+
+const BuildingPage = () => {
+  const { idOrCode = null } = useParams();
+  const [searchParams] = useSearchParams();
+  const term = searchParams.get("term") ?? undefined;
+  const { detail, error, isLoading } = useBuildingDetail(idOrCode, term);
+
+  return (
+    <div className="min-h-screen bg-slate-50">
+      <div className="mx-auto max-w-3xl px-6 py-6">
+        <Link to="/" className="text-sm text-blue-600 hover:underline">
+          ← All rooms
+        </Link>
+
+        {error ? (
+          <p className="mt-6 text-sm text-red-600">
+            Unable to load building: {error}
+          </p>
+        ) : isLoading || !detail ? (
+          <p className="mt-6 text-sm text-slate-600">Loading building…</p>
+        ) : (
+          <>
+            <header className="mt-4 border-b border-slate-200 pb-4">
+              <h1 className="text-2xl font-semibold text-slate-900">
+                {detail.building.name}
+              </h1>
+              <p className="text-sm text-slate-500">
+                {detail.building.code ?? detail.building.id} • {detail.term}
+                {detail.building.isOpenNow === null
+                  ? ""
+                  : detail.building.isOpenNow
+                  ? " • Building open"
+                  : " • Building closed"}
+              </p>
+              <div className="mt-3">
+                <BuildingOverview detail={detail} />
+              </div>
+            </header>
+
+            <ul className="mt-4 divide-y divide-slate-200 rounded-2xl border border-slate-200 bg-white">
+              {detail.rooms.map((room) => {
+                const status = describeRoomStatus(room);
+                return (
+                  <li
+                    key={room.id}
+                    className="flex items-start justify-between gap-4 px-4 py-3"
+                  >
+                    <div>
+                      <p className="font-medium text-slate-900">
+                        Room {room.number}
+                      </p>
+                      <p className="text-xs text-slate-500">
+                        {room.capacity
+                          ? `${room.capacity} seats`
+                          : "Capacity unknown"}
+                        {room.amenities.length
+                          ? ` • ${room.amenities.join(", ")}`
+                          : ""}
+                      </p>
+                      {room.metadata?.detailUrl ? (
+                        <a
+                          href={room.metadata.detailUrl}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-xs text-blue-600 underline"
+                        >
+                          View details
+                        </a>
+                      ) : null}
+                    </div>
+                    <div className="text-right text-sm">
+                      <p className={status.tone}>{status.label}</p>
+                      {!room.isAvailableNow && room.nextAvailable ? (
+                        <p className="text-xs text-slate-500">
+                          Next: {room.nextAvailable.dayLabel} •{" "}
+                          {room.nextAvailable.startTime}
+                        </p>
+                      ) : null}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BuildingPage;
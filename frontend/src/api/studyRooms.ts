@@ -1,24 +1,53 @@
 import axios from "axios";
 
+// The full contract is served by the backend at `/api/openapi.json` (browse it
+// at `/api/docs`); the notes below cover the calls this client makes.
 // - `GET /api/rooms/open`
 //   Query params (optional):
 //   - `size`: minimum capacity bucket (e.g., `10`, `25`)
 //   - `buildingId`: STARS building ID (e.g., `B800000007`)
 //   - `buildingCode`: campus code (e.g., `AND`)
 //   - `room`: room number (e.g., `0013`)
+//   - `periods`, `days`, `match`: free periods to require; `match=all` keeps
+//     rooms free for every period on every day and lists `matchedPeriods`
+//   - `sort`, `near`, `limit`, `cursor`: ordering and pagination (`page` in the response)
+//   - `fields`: room fields to keep, e.g. `availability,metadata.photo`
+//   - `term`: loaded term to read (see `/api/terms`); defaults to today's term
 //     Response includes:
 //   - `periodStartTimes`: mapping of STARS periods to 12‑hour start times
+//   - `periodSchedule[]`: the active term's periods with `startTime`/`endTime`
 //   - `buildings[]` → `rooms[]` → `availability` keyed by size
 //   - Each size entry contains:
 //     - `periods[]` with `day`, `period`, `startTime`, `endTime` (12‑hour strings)
 //     - `isAvailableNow` (boolean) based on current Eastern time
-//     - `nextAvailable` (next day/period/time if the room is currently unavailable)
+//     - `nextAvailable` (start of the next free block, merging back-to-back free periods)
+//     - `openUntil` (12‑hour end of the current free block, or `null` when busy)
+//     - `freeMinutesRemaining` (minutes left in the current free block)
+//     - `nextBusyAt` (12‑hour start of the next scheduled class after the block)
 // - `GET /api/rooms/:id` (e.g., `/api/rooms/AND-0013`)  
 //   Returns the single building/room record with the same structure as above.
 // - `GET /api/buildings`  
 //   Returns basic building metadata and room counts (no availability payload).
+// - `GET /api/buildings/:idOrCode` (e.g., `/api/buildings/AND`)
+//   One building with every room's status plus open-now/later-today counts,
+//   the largest open room, amenities and the next opening.
+// - `GET /api/search/recurring?days=MWF&periods=4`
+//   Rooms free in every matching weekly slot, plus near misses that fail one day.
+// - `GET /api/rooms/stream`
+//   Server-Sent Events: `snapshot` with every room's status on connect, then
+//   `status` with the rooms that changed at period boundaries or on a reload.
+// - `GET /api/terms`
+//   The terms the backend has loaded and which one it serves by default.
 
-import type { RoomsResponse } from "../types";
+import type {
+  BuildingDetailResponse,
+  PeriodMatchMode,
+  RecurringSearchResponse,
+  RoomStatusChangeEvent,
+  RoomStatusSnapshotEvent,
+  RoomsResponse,
+  TermsResponse,
+} from "../types";
 
 const BASE = "/api";
 
@@ -27,21 +56,122 @@ export interface RoomsQueryParams {
   buildingId?: string;
   buildingCode?: string;
   room?: string;
-  periods?: number[];
+  periods?: string[];
+  days?: string;
+  match?: PeriodMatchMode;
+  amenities?: string[];
+  minCapacity?: number;
+  maxCapacity?: number;
+  sort?: "openUntil" | "capacity" | "distance" | "name";
+  near?: string;
+  limit?: number;
+  cursor?: string;
+  fields?: string[];
+  facets?: Array<"amenities" | "capacity" | "buildings" | "availability">;
+  term?: string;
+}
+
+export type RoomStreamParams = Pick<
+  RoomsQueryParams,
+  | "size"
+  | "buildingId"
+  | "buildingCode"
+  | "room"
+  | "periods"
+  | "days"
+  | "match"
+  | "amenities"
+  | "minCapacity"
+  | "maxCapacity"
+  | "term"
+>;
+
+export interface RoomStreamHandlers {
+  onSnapshot?: (event: RoomStatusSnapshotEvent) => void;
+  onStatus: (event: RoomStatusChangeEvent) => void;
+}
+
+export interface RecurringQueryParams {
+  days: string;
+  periods: string;
+  minCapacity?: number;
+  amenities?: string[];
+  buildingCode?: string;
+  term?: string;
 }
 
 export const fetchStudyRooms = {
   rooms: async (params: RoomsQueryParams = {}): Promise<RoomsResponse> => {
-    const { periods, ...rest } = params;
+    const { periods, fields, amenities, facets, ...rest } = params;
     const query: Record<string, unknown> = { ...rest };
     if (periods && periods.length > 0) {
       query.periods = periods.join(",");
     }
+    if (amenities && amenities.length > 0) {
+      query.amenities = amenities.join(",");
+    }
+    if (fields && fields.length > 0) {
+      query.fields = fields.join(",");
+    }
+    if (facets && facets.length > 0) {
+      query.facets = facets.join(",");
+    }
 
     const response = await axios.get<RoomsResponse>(`${BASE}/rooms/open`, {
       params: query,
     });
     return response.data;
   },
+  recurring: async (
+    params: RecurringQueryParams
+  ): Promise<RecurringSearchResponse> => {
+    const { amenities, ...rest } = params;
+    const query: Record<string, unknown> = { ...rest };
+    if (amenities && amenities.length > 0) {
+      query.amenities = amenities.join(",");
+    }
+
+    const response = await axios.get<RecurringSearchResponse>(
+      `${BASE}/search/recurring`,
+      { params: query }
+    );
+    return response.data;
+  },
+  // Returns a function that closes the stream. EventSource reconnects on its
+  // own, and the server sends a fresh `snapshot` on every connect.
+  streamStatus: (
+    params: RoomStreamParams,
+    handlers: RoomStreamHandlers
+  ): (() => void) => {
+    const query = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value === undefined || value === "") return;
+      const text = Array.isArray(value) ? value.join(",") : String(value);
+      if (text) query.set(key, text);
+    });
+
+    const source = new EventSource(`${BASE}/rooms/stream?${query}`);
+    source.addEventListener("snapshot", (event) => {
+      handlers.onSnapshot?.(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener("status", (event) => {
+      handlers.onStatus(JSON.parse((event as MessageEvent).data));
+    });
+    return () => source.close();
+  },
+  building: async (
+    idOrCode: string,
+    params: { term?: string } = {}
+  ): Promise<BuildingDetailResponse> => {
+    const response = await axios.get<BuildingDetailResponse>(
+      `${BASE}/buildings/${encodeURIComponent(idOrCode)}`,
+      { params }
+    );
+    return response.data;
+  },
+  terms: async (): Promise<TermsResponse> => {
+    const response = await axios.get<TermsResponse>(`${BASE}/terms`);
+    return response.data;
+  },
 };
 
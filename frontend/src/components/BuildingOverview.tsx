@@ -0,0 +1,64 @@
+import type { BuildingDetailResponse } from "../types";
+
+const AMENITY_LABELS: Record<string, string> = {
+  ada: "ADA Accessible",
+  chalkboard: "Whiteboard / Chalkboard",
+  power: "Student Power",
+  projector: "Projector",
+};
+
+interface BuildingOverviewProps {
+  detail: BuildingDetailResponse;
+}
+
+// The live aggregates from `/api/buildings/:idOrCode`, shown in the map popup
+// and at the top of the building page.
+const BuildingOverview: React.FC<BuildingOverviewProps> = ({ detail }) => {
+  const { largestOpenRoom, nextOpening } = detail;
+
+  return (
+    <div className="space-y-2 text-sm text-slate-700">
+      <p>
+        <span className="font-semibold text-emerald-600">
+          {detail.openNowCount} open now
+        </span>{" "}
+        •{" "}
+        <span className="text-amber-600">
+          {detail.openLaterTodayCount} later today
+        </span>{" "}
+        • {detail.roomCount} rooms
+      </p>
+      {largestOpenRoom ? (
+        <p>
+          Largest open room: {largestOpenRoom.number}
+          {largestOpenRoom.capacity
+            ? ` (${largestOpenRoom.capacity} seats)`
+            : ""}
+          {largestOpenRoom.openUntil
+            ? `, until ${largestOpenRoom.openUntil}`
+            : ""}
+        </p>
+      ) : null}
+      {nextOpening ? (
+        <p>
+          Next opening: {nextOpening.dayLabel} • {nextOpening.startTime} in{" "}
+          {nextOpening.roomId}
+        </p>
+      ) : null}
+      {detail.amenities.length > 0 ? (
+        <ul className="flex flex-wrap gap-1">
+          {detail.amenities.map((slug) => (
+            <li
+              key={slug}
+              className="rounded-full bg-slate-100 px-2 py-0.5 text-xs text-slate-600"
+            >
+              {AMENITY_LABELS[slug] ?? slug}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+};
+
+export default BuildingOverview;
@@ -0,0 +1,86 @@
+import { Link } from "react-router-dom";
+import { useBuildingDetail } from "../hooks/useBuildingDetail";
+import { describeRoomStatus } from "../utils/roomStatus";
+import BuildingOverview from "./BuildingOverview";
+
+interface BuildingPopupProps {
+  idOrCode: string;
+  term?: string;
+  selectedRoomId: string | null;
+  onRoomFocus?: (roomId: string) => void;
+}
+
+// Rendered only while the popup is open, so the building is fetched on demand.
+const BuildingPopup: React.FC<BuildingPopupProps> = ({
+  idOrCode,
+  term,
+  selectedRoomId,
+  onRoomFocus,
+}) => {
+  const { detail, error, isLoading } = useBuildingDetail(idOrCode, term);
+
+  if (error) {
+    return <div className="text-sm text-red-600">{error}</div>;
+  }
+  if (isLoading || !detail) {
+    return <div className="text-sm text-slate-600">Loading building…</div>;
+  }
+
+  const photoRoom =
+    detail.rooms.find(
+      (room) => room.id === selectedRoomId && room.metadata?.photo
+    ) ?? detail.rooms.find((room) => room.metadata?.photo);
+  const pagePath = `/buildings/${detail.building.code ?? detail.building.id}${
+    term ? `?term=${encodeURIComponent(term)}` : ""
+  }`;
+
+  return (
+    <div style={{ minWidth: 260 }}>
+      {photoRoom?.metadata?.photo ? (
+        <img
+          src={photoRoom.metadata.photo}
+          alt={`${detail.building.name} ${photoRoom.number}`}
+          className="w-full h-42 object-cover rounded-md mb-3"
+        />
+      ) : null}
+      <strong className="flex w-full">{detail.building.name}</strong>
+      <div className="mt-1">
+        <BuildingOverview detail={detail} />
+      </div>
+      <ul className="mt-3 max-h-48 space-y-1 overflow-y-auto text-sm">
+        {detail.rooms.map((room) => {
+          const status = describeRoomStatus(room);
+          return (
+            <li key={room.id}>
+              <button
+                type="button"
+                onClick={() => onRoomFocus?.(room.id)}
+                className={`flex w-full items-center justify-between gap-2 rounded px-1 py-0.5 text-left hover:bg-slate-100 ${
+                  room.id === selectedRoomId ? "bg-slate-100" : ""
+                }`}
+              >
+                <span>
+                  {room.number}
+                  {room.capacity ? (
+                    <span className="text-xs text-slate-500">
+                      {" "}
+                      • {room.capacity} seats
+                    </span>
+                  ) : null}
+                </span>
+                <span className={`text-xs ${status.tone}`}>{status.label}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="mt-2 text-sm">
+        <Link to={pagePath} className="text-blue-600 underline">
+          Open building page
+        </Link>
+      </div>
+    </div>
+  );
+};
+
+export default BuildingPopup;
@@ -4,22 +4,30 @@ import type { Map as LeafletMap, Marker as LeafletMarker } from "leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import type { DisplayRoom } from "../types";
+import BuildingPopup from "./BuildingPopup";
 
 interface MapViewProps {
   rooms: DisplayRoom[];
   selectedRoomId: string | null;
+  term?: string;
   onRoomFocus?: (roomId: string) => void;
 }
 
-interface BuildingGroup {
+// Only what a marker needs; the popup loads the building's rooms and live
+// aggregates from `/api/buildings/:idOrCode` when it opens.
+interface BuildingMarker {
   buildingId: string;
-  buildingName: string;
   lat: number;
   lng: number;
-  rooms: DisplayRoom[];
+  status: RoomStatus;
 }
 
 type RoomStatus = "available" | "later" | "unavailable";
+const STATUS_RANK: Record<RoomStatus, number> = {
+  available: 0,
+  later: 1,
+  unavailable: 2,
+};
 const JS_DAY_TO_STARS_CODE: string[] = ["SU", "M", "T", "W", "TH", "F", "S"];
 function createMarkerIcon(
   fill: string,
@@ -57,7 +65,12 @@ function getRoomStatus(
   return "unavailable";
 }
 
-const MapView = ({ rooms, selectedRoomId, onRoomFocus }: MapViewProps) => {
+const MapView = ({
+  rooms,
+  selectedRoomId,
+  term,
+  onRoomFocus,
+}: MapViewProps) => {
   // Ensure Leaflet marker assets load correctly when bundled
   const iconPrototype = L.Icon.Default.prototype as unknown as {
     _getIconUrl?: string;
@@ -93,151 +106,65 @@ const MapView = ({ rooms, selectedRoomId, onRoomFocus }: MapViewProps) => {
 
   const todayCode = JS_DAY_TO_STARS_CODE[new Date().getDay()] ?? null;
 
-  const buildingGroups: BuildingGroup[] = useMemo(() => {
-    const groups = new Map<string, BuildingGroup>();
+  // One marker per building with a room that passes the filters, colored by
+  // that building's best room status.
+  const buildingMarkers: BuildingMarker[] = useMemo(() => {
+    const markers = new Map<string, BuildingMarker>();
 
     rooms.forEach((room) => {
       if (room.lat === null || room.lng === null) {
         return;
       }
 
-      const existing = groups.get(room.buildingId);
-      if (existing) {
-        existing.rooms.push(room);
-      } else {
-        groups.set(room.buildingId, {
+      const status = getRoomStatus(room, todayCode);
+      const existing = markers.get(room.buildingId);
+      if (!existing || STATUS_RANK[status] < STATUS_RANK[existing.status]) {
+        markers.set(room.buildingId, {
           buildingId: room.buildingId,
-          buildingName: room.buildingName,
           lat: room.lat,
           lng: room.lng,
-          rooms: [room],
+          status,
         });
       }
     });
 
-    return Array.from(groups.values()).map((group) => ({
-      ...group,
-      rooms: group.rooms.slice().sort((a, b) =>
-        a.roomNumber.localeCompare(b.roomNumber, undefined, {
-          numeric: true,
-          sensitivity: "base",
-        })
-      ),
-    }));
-  }, [rooms]);
+    return Array.from(markers.values());
+  }, [rooms, todayCode]);
 
-  const [activeRoomIndex, setActiveRoomIndex] = useState<
-    Record<string, number>
-  >({});
   const markerRefs = useRef<Record<string, LeafletMarker | null>>({});
   const [mapInstance, setMapInstance] = useState<LeafletMap | null>(null);
 
   useEffect(() => {
-    setActiveRoomIndex((prev) => {
-      const next: Record<string, number> = {};
-      let changed = false;
-
-      buildingGroups.forEach((group) => {
-        const prevIndex = prev[group.buildingId] ?? 0;
-        const boundedIndex = Math.min(prevIndex, group.rooms.length - 1);
-        next[group.buildingId] = boundedIndex;
-        if (boundedIndex !== prevIndex || !(group.buildingId in prev)) {
-          changed = true;
-        }
-      });
-
-      if (!changed) {
-        const prevKeys = Object.keys(prev);
-        const nextKeys = Object.keys(next);
-        if (prevKeys.length !== nextKeys.length) {
-          changed = true;
-        } else {
-          for (const key of prevKeys) {
-            if (!(key in next)) {
-              changed = true;
-              break;
-            }
-          }
-        }
-      }
-
-      return changed ? next : prev;
-    });
-  }, [buildingGroups]);
-
-  useEffect(() => {
-    const validIds = new Set(buildingGroups.map((group) => group.buildingId));
+    const validIds = new Set(
+      buildingMarkers.map((marker) => marker.buildingId)
+    );
     Object.keys(markerRefs.current).forEach((key) => {
       if (!validIds.has(key)) {
         delete markerRefs.current[key];
       }
     });
-  }, [buildingGroups]);
-
-  const handleNavigate = (buildingId: string, delta: 1 | -1) => {
-    setActiveRoomIndex((prev) => {
-      const group = buildingGroups.find(
-        (candidate) => candidate.buildingId === buildingId
-      );
-      if (!group || group.rooms.length <= 1) {
-        return prev;
-      }
-
-      const current = prev[buildingId] ?? 0;
-      const count = group.rooms.length;
-      const nextIndex = (current + delta + count) % count;
-      const nextRoom = group.rooms[nextIndex];
-
-      if (nextIndex === current) {
-        return prev;
-      }
-
-      if (nextRoom) {
-        onRoomFocus?.(nextRoom.id);
-      }
-
-      return {
-        ...prev,
-        [buildingId]: nextIndex,
-      };
-    });
-  };
+  }, [buildingMarkers]);
 
   useEffect(() => {
     if (!selectedRoomId) return;
-    const targetGroup = buildingGroups.find((group) =>
-      group.rooms.some((room) => room.id === selectedRoomId)
+    const selectedRoom = rooms.find((room) => room.id === selectedRoomId);
+    const target = buildingMarkers.find(
+      (marker) => marker.buildingId === selectedRoom?.buildingId
     );
-    if (!targetGroup) return;
+    if (!target) return;
 
-    const nextIndex = targetGroup.rooms.findIndex(
-      (room) => room.id === selectedRoomId
-    );
-    if (nextIndex < 0) return;
-
-    setActiveRoomIndex((prev) => {
-      const current = prev[targetGroup.buildingId] ?? 0;
-      if (current === nextIndex) {
-        return prev;
-      }
-      return {
-        ...prev,
-        [targetGroup.buildingId]: nextIndex,
-      };
-    });
-
-    const marker = markerRefs.current[targetGroup.buildingId];
-    if (marker) {
+    const marker = markerRefs.current[target.buildingId];
+    if (marker && !marker.isPopupOpen()) {
       marker.openPopup();
     }
     if (mapInstance) {
       mapInstance.flyTo(
-        [targetGroup.lat, targetGroup.lng],
+        [target.lat, target.lng],
         Math.max(mapInstance.getZoom(), 16),
         { duration: 0.4 }
       );
     }
-  }, [selectedRoomId, buildingGroups, mapInstance]);
+  }, [selectedRoomId, rooms, buildingMarkers, mapInstance]);
 
   return (
     <div className="h-full w-full">
@@ -246,125 +173,37 @@ const MapView = ({ rooms, selectedRoomId, onRoomFocus }: MapViewProps) => {
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
-        {buildingGroups.map((group) => {
-          const activeIndex = activeRoomIndex[group.buildingId] ?? 0;
-          const room = group.rooms[activeIndex];
-          const status = getRoomStatus(room, todayCode);
-          const statusLabel =
-            status === "available"
-              ? room.nextAvailable
-                ? `Open until ${room.nextAvailable.startTime}`
-                : "Open now"
-              : status === "later"
-              ? "Available later today"
-              : "Unavailable today";
-          const statusTone =
-            status === "available"
-              ? "text-emerald-600"
-              : status === "later"
-              ? "text-amber-600"
-              : "text-slate-500";
-
-          return (
-            <Marker
-              key={group.buildingId}
-              position={[group.lat, group.lng]}
-              icon={statusIcons[status]}
-              riseOnHover={true}
-              riseOffset={250}
-              ref={(instance) => {
-                markerRefs.current[group.buildingId] = instance;
-              }}
-              eventHandlers={{
-                popupopen: () => {
-                  const focusedRoom =
-                    group.rooms[activeRoomIndex[group.buildingId] ?? 0] ?? null;
-                  if (focusedRoom) {
-                    onRoomFocus?.(focusedRoom.id);
-                  }
-                },
-                mouseover: (event) => {
-                  const marker = event.target;
-                  marker.setIcon(statusIconsHovered[status]);
-                  marker.setZIndexOffset(1000);
-                },
-                mouseout: (event) => {
-                  const marker = event.target;
-                  marker.setIcon(statusIcons[status]);
-                  marker.setZIndexOffset(0);
-                },
-              }}
-            >
-              <Popup>
-                <div style={{ minWidth: 240 }}>
-                  {room.photo ? (
-                    <img
-                      src={room.photo}
-                      alt={`${group.buildingName} ${room.roomNumber}`}
-                      className="w-full h-42 object-cover rounded-md mb-3"
-                    />
-                  ) : null}
-                  <strong className="flex w-full">
-                    {group.buildingName} • {room.roomNumber}
-                  </strong>
-                  <div className="mt-1 text-sm">
-                    Status: <span className={statusTone}>{statusLabel}</span>
-                    {room.nextAvailable ? (
-                      <>
-                        <br />
-                        Next availability: {room.nextAvailable.dayLabel} •{" "}
-                        {room.nextAvailable.startTime}
-                      </>
-                    ) : null}
-                    <br />
-                    Capacity: {room.capacity ?? "Unknown"}
-                  </div>
-                  {room.detailUrl ? (
-                    <div className="mt-2 text-sm">
-                      <a
-                        href={room.detailUrl}
-                        target="_blank"
-                        rel="noreferrer"
-                        className="text-blue-600 underline"
-                      >
-                        View details
-                      </a>
-                    </div>
-                  ) : null}
-                  {group.rooms.length > 1 ? (
-                    <div className="mt-3 flex items-center justify-between gap-2">
-                      <button
-                        type="button"
-                        onClick={(event) => {
-                          event.preventDefault();
-                          event.stopPropagation();
-                          handleNavigate(group.buildingId, -1);
-                        }}
-                        className="rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
-                      >
-                        Previous
-                      </button>
-                      <span className="text-xs text-slate-500">
-                        Room {activeIndex + 1} of {group.rooms.length}
-                      </span>
-                      <button
-                        type="button"
-                        onClick={(event) => {
-                          event.preventDefault();
-                          event.stopPropagation();
-                          handleNavigate(group.buildingId, 1);
-                        }}
-                        className="rounded-md border border-slate-300 px-2 py-1 text-xs text-slate-600 hover:bg-slate-100"
-                      >
-                        Next
-                      </button>
-                    </div>
-                  ) : null}
-                </div>
-              </Popup>
-            </Marker>
-          );
-        })}
+        {buildingMarkers.map((marker) => (
+          <Marker
+            key={marker.buildingId}
+            position={[marker.lat, marker.lng]}
+            icon={statusIcons[marker.status]}
+            riseOnHover={true}
+            riseOffset={250}
+            ref={(instance) => {
+              markerRefs.current[marker.buildingId] = instance;
+            }}
+            eventHandlers={{
+              mouseover: (event) => {
+                event.target.setIcon(statusIconsHovered[marker.status]);
+                event.target.setZIndexOffset(1000);
+              },
+              mouseout: (event) => {
+                event.target.setIcon(statusIcons[marker.status]);
+                event.target.setZIndexOffset(0);
+              },
+            }}
+          >
+            <Popup>
+              <BuildingPopup
+                idOrCode={marker.buildingId}
+                term={term}
+                selectedRoomId={selectedRoomId}
+                onRoomFocus={onRoomFocus}
+              />
+            </Popup>
+          </Marker>
+        ))}
       </MapContainer>
     </div>
   );
@@ -0,0 +1,226 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import React from "react";
+import { fetchStudyRooms } from "../api/studyRooms";
+import type {
+  PeriodSlot,
+  RecurringMatch,
+  RecurringSearchResponse,
+} from "../types";
+
+const DAY_OPTIONS: Array<{ code: string; label: string }> = [
+  { code: "M", label: "M" },
+  { code: "T", label: "T" },
+  { code: "W", label: "W" },
+  { code: "R", label: "R" },
+  { code: "F", label: "F" },
+];
+
+const DAY_NAMES: Record<string, string> = {
+  M: "Mon",
+  T: "Tue",
+  W: "Wed",
+  TH: "Thu",
+  F: "Fri",
+  S: "Sat",
+  SU: "Sun",
+};
+
+interface RecurringSearchProps {
+  periodSchedule: PeriodSlot[];
+  term?: string;
+  onSelectRoom?: (roomId: string) => void;
+}
+
+const RecurringSearch: React.FC<RecurringSearchProps> = ({
+  periodSchedule,
+  term,
+  onSelectRoom,
+}) => {
+  const [days, setDays] = useState<string[]>(["M", "W", "F"]);
+  const [fromPeriod, setFromPeriod] = useState<string>("");
+  const [toPeriod, setToPeriod] = useState<string>("");
+  const [minCapacity, setMinCapacity] = useState<number>(1);
+  const [result, setResult] = useState<RecurringSearchResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+
+  const firstPeriod = periodSchedule[0]?.period ?? "";
+  const startPeriod = fromPeriod || firstPeriod;
+  const endPeriod = toPeriod || startPeriod;
+
+  const toggleDay = (code: string) => {
+    setDays((current) =>
+      current.includes(code)
+        ? current.filter((day) => day !== code)
+        : [...current, code]
+    );
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (days.length === 0 || !startPeriod) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const ordered = DAY_OPTIONS.map((option) => option.code).filter((code) =>
+        days.includes(code)
+      );
+      const payload = await fetchStudyRooms.recurring({
+        days: ordered.join(""),
+        periods:
+          startPeriod === endPeriod
+            ? startPeriod
+            : `${startPeriod}-${endPeriod}`,
+        minCapacity: minCapacity > 1 ? minCapacity : undefined,
+        term,
+      });
+      setResult(payload);
+    } catch (error) {
+      console.error("Failed to search recurring slots", error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  function renderMatches(matches: RecurringMatch[], isNearMiss: boolean) {
+    return (
+      <ul className="space-y-1">
+        {matches.map((match) => (
+          <li key={match.room.id}>
+            <button
+              type="button"
+              onClick={() => onSelectRoom?.(match.room.id)}
+              className="flex w-full items-center justify-between rounded-md px-2 py-1 text-left text-xs text-slate-700 hover:bg-slate-100"
+            >
+              <span>
+                {match.building.name} • {match.room.number}
+              </span>
+              <span className="text-slate-500">
+                {isNearMiss
+                  ? `busy ${match.missedDays
+                      .map((day) => DAY_NAMES[day] ?? day)
+                      .join(", ")}`
+                  : `${match.room.capacity ?? "?"} seats`}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+      <form className="space-y-3" onSubmit={handleSubmit}>
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-slate-700">Days</span>
+          <div className="flex gap-1">
+            {DAY_OPTIONS.map((option) => {
+              const isSelected = days.includes(option.code);
+              return (
+                <button
+                  key={option.code}
+                  type="button"
+                  onClick={() => toggleDay(option.code)}
+                  aria-pressed={isSelected}
+                  className={`h-7 w-7 rounded-full text-xs font-semibold transition ${
+                    isSelected
+                      ? "bg-blue-600 text-white"
+                      : "bg-slate-100 text-slate-600 hover:bg-slate-200"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-sm font-medium text-slate-700">Periods</span>
+          <span className="flex items-center gap-1 text-xs text-slate-500">
+            <select
+              value={startPeriod}
+              onChange={(event) => setFromPeriod(event.target.value)}
+              className="rounded border border-slate-200 px-1 py-0.5"
+              aria-label="First period"
+            >
+              {periodSchedule.map((slot) => (
+                <option key={slot.period} value={slot.period}>
+                  {slot.period} ({slot.startTime})
+                </option>
+              ))}
+            </select>
+            to
+            <select
+              value={endPeriod}
+              onChange={(event) => setToPeriod(event.target.value)}
+              className="rounded border border-slate-200 px-1 py-0.5"
+              aria-label="Last period"
+            >
+              {periodSchedule.map((slot) => (
+                <option key={slot.period} value={slot.period}>
+                  {slot.period} ({slot.endTime})
+                </option>
+              ))}
+            </select>
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <label
+            htmlFor="recurring-capacity"
+            className="text-sm font-medium text-slate-700"
+          >
+            Minimum capacity
+          </label>
+          <input
+            id="recurring-capacity"
+            type="number"
+            min={1}
+            value={minCapacity}
+            onChange={(event) => {
+              const nextValue = Number(event.target.value);
+              setMinCapacity(
+                Number.isFinite(nextValue) && nextValue > 0 ? nextValue : 1
+              );
+            }}
+            className="w-20 rounded border border-slate-200 px-2 py-0.5 text-right text-xs"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={isLoading || days.length === 0}
+          className="w-full rounded-md bg-slate-800 px-3 py-1.5 text-xs font-semibold text-white hover:bg-slate-700 disabled:opacity-50"
+        >
+          {isLoading ? "Searching…" : "Find weekly rooms"}
+        </button>
+      </form>
+
+      {error ? (
+        <p className="text-xs text-red-600">Unable to search: {error}</p>
+      ) : null}
+
+      {result ? (
+        <div className="space-y-2">
+          <p className="text-xs font-semibold text-slate-600">
+            {result.matches.length} room
+            {result.matches.length !== 1 ? "s" : ""} free every time
+          </p>
+          {renderMatches(result.matches, false)}
+          {result.nearMisses.length > 0 ? (
+            <>
+              <p className="text-xs font-semibold text-slate-600">
+                Near misses (busy one day)
+              </p>
+              {renderMatches(result.nearMisses, true)}
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+};
+
+export default RecurringSearch;
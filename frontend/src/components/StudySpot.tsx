@@ -29,8 +29,8 @@ const StudySpot: React.FC<StudySpotProps> = ({ room, isActive, onSelect }) => {
     : "bg-amber-100 text-amber-800";
 
   const availabilityLabel = room.isAvailableNow
-    ? room.nextAvailable
-      ? `Open until ${room.nextAvailable.startTime}`
+    ? room.openUntil
+      ? `Open until ${room.openUntil}`
       : "Open now"
     : room.nextAvailable
     ? `Next: ${room.nextAvailable.dayLabel} • ${room.nextAvailable.startTime}`
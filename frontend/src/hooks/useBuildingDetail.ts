@@ -0,0 +1,34 @@
+import { useEffect, useState } from "react";
+import { fetchStudyRooms } from "../api/studyRooms";
+import type { BuildingDetailResponse } from "../types";
+
+// Shared by the map popup and the building page.
+export function useBuildingDetail(idOrCode: string | null, term?: string) {
+  const [detail, setDetail] = useState<BuildingDetailResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!idOrCode) return;
+    let isMounted = true;
+    setDetail(null);
+    setError(null);
+
+    fetchStudyRooms
+      .building(idOrCode, term ? { term } : {})
+      .then((payload) => {
+        if (isMounted) setDetail(payload);
+      })
+      .catch((error) => {
+        console.error("Failed to fetch building", error);
+        if (isMounted) {
+          setError(error instanceof Error ? error.message : "Unknown error");
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [idOrCode, term]);
+
+  return { detail, error, isLoading: !detail && !error };
+}
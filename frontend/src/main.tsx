@@ -1,6 +1,8 @@
 import { createRoot } from "react-dom/client";
+import { BrowserRouter, Route, Routes } from "react-router-dom";
 import "./index.css";
 import App from "./App";
+import BuildingPage from "./BuildingPage";
 
 const container = document.getElementById("root");
 
@@ -9,4 +11,11 @@ if (!container) {
 }
 
 const root = createRoot(container);
-root.render(<App />);
+root.render(
+  <BrowserRouter>
+    <Routes>
+      <Route path="/" element={<App />} />
+      <Route path="/buildings/:idOrCode" element={<BuildingPage />} />
+    </Routes>
+  </BrowserRouter>
+);
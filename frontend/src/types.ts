@@ -8,6 +8,7 @@ export interface PeriodEntry {
 export interface NextAvailability {
   day: string;
   dayLabel: string;
+  date?: string;
   period: string;
   startTime: string;
   endTime: string;
@@ -17,12 +18,16 @@ export interface SizeAvailability {
   periods?: PeriodEntry[];
   isAvailableNow?: boolean;
   nextAvailable?: NextAvailability | null;
+  openUntil?: string | null;
+  freeMinutesRemaining?: number | null;
+  nextBusyAt?: string | null;
 }
 
 export interface RoomMetadata {
   capacity: number | null;
   photo: string | null;
-  gallery: string[];
+  // Omitted when the rooms request narrows `fields`.
+  gallery?: string[];
   features: Array<{ slug: string; label: string }>;
   featureFlags: Record<string, boolean>;
   detailUrl: string;
@@ -31,9 +36,20 @@ export interface RoomMetadata {
 export interface RoomAvailability {
   number: string;
   metadata?: RoomMetadata;
+  // Canonical amenity slugs (ada, chalkboard, power, projector).
+  amenities: string[];
+  // Only present when `days` or `periods` was requested.
+  matchedPeriods?: MatchedPeriod[];
   availability: Record<string, SizeAvailability>;
 }
 
+export interface MatchedPeriod {
+  day: string;
+  period: string;
+}
+
+export type PeriodMatchMode = "any" | "all";
+
 export interface BuildingAvailability {
   id: string;
   code: string | null;
@@ -41,15 +57,62 @@ export interface BuildingAvailability {
   campusId: string | null;
   lat: number | null;
   lng: number | null;
+  // Present when the request passed `near`.
+  distanceMeters?: number;
+  walkingMinutes?: number;
   rooms: RoomAvailability[];
 }
 
+export interface PeriodSlot {
+  period: string;
+  startTime: string;
+  endTime: string;
+}
+
 export interface RoomsResponse {
   fetchedAt: string;
   term: string;
   classSizes: string[];
   buildings: BuildingAvailability[];
+  page?: RoomsPage;
+  unlocatedBuildings?: Array<Omit<BuildingAvailability, "rooms">>;
   periodStartTimes?: Record<string, string>;
+  periodSchedule?: PeriodSlot[];
+  periodMatch?: {
+    days: string[] | null;
+    periods: string[] | null;
+    match: PeriodMatchMode;
+  };
+  facets?: RoomFacets;
+}
+
+// Each facet leaves its own filter out, so the capacity range stays stable
+// while the slider moves.
+export interface RoomFacets {
+  amenities?: Record<string, number>;
+  capacity?: {
+    min: number | null;
+    max: number | null;
+    unknown: number;
+    buckets: Array<{ min: number; max: number | null; count: number }>;
+  };
+  buildings?: Array<{
+    id: string;
+    code: string | null;
+    name: string;
+    count: number;
+  }>;
+  availability?: {
+    openNow: number;
+    laterToday: number;
+    notToday: number;
+  };
+}
+
+export interface RoomsPage {
+  total: number;
+  limit: number | null;
+  nextCursor: string | null;
 }
 
 export interface DisplayRoom {
@@ -66,7 +129,121 @@ export interface DisplayRoom {
   availability: Record<string, SizeAvailability>;
   isAvailableNow: boolean;
   nextAvailable: NextAvailability | null;
+  openUntil: string | null;
   fetchedAt: string;
   detailUrl: string | null;
   photo: string | null;
 }
+
+export interface SearchBuildingSummary {
+  id: string;
+  code: string | null;
+  name: string;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface SearchRoomSummary {
+  id: string;
+  number: string;
+  capacity: number | null;
+  amenities: string[];
+  detailUrl: string | null;
+}
+
+export interface RoomStatus {
+  id: string;
+  buildingId: string;
+  number: string;
+  isAvailableNow: boolean;
+  openUntil: string | null;
+  freeMinutesRemaining: number | null;
+  nextAvailable: NextAvailability | null;
+  nextBusyAt: string | null;
+}
+
+interface RoomStatusEventBase {
+  term: string;
+  snapshotVersion: string;
+}
+
+export interface RoomStatusSnapshotEvent extends RoomStatusEventBase {
+  rooms: RoomStatus[];
+}
+
+export interface RoomStatusChangeEvent extends RoomStatusEventBase {
+  reason: "period" | "dataset";
+  changed: RoomStatus[];
+  removed: string[];
+}
+
+export interface BuildingRoomDetail {
+  id: string;
+  number: string;
+  capacity: number | null;
+  amenities: string[];
+  metadata: RoomMetadata | null;
+  isAvailableNow: boolean;
+  isAvailableLaterToday: boolean;
+  openUntil: string | null;
+  freeMinutesRemaining: number | null;
+  nextAvailable: NextAvailability | null;
+  nextBusyAt: string | null;
+}
+
+export interface BuildingDetailResponse {
+  fetchedAt: string;
+  term: string;
+  building: {
+    id: string;
+    code: string | null;
+    name: string;
+    campusId: string | null;
+    lat: number | null;
+    lng: number | null;
+    isOpenNow: boolean | null;
+  };
+  roomCount: number;
+  openNowCount: number;
+  openLaterTodayCount: number;
+  largestOpenRoom: {
+    id: string;
+    number: string;
+    capacity: number | null;
+    openUntil: string | null;
+  } | null;
+  amenities: string[];
+  nextOpening: (NextAvailability & { roomId: string }) | null;
+  rooms: BuildingRoomDetail[];
+}
+
+export interface TermSummary {
+  term: string;
+  fetchedAt: string;
+  start: string | null;
+  end: string | null;
+  isDefault: boolean;
+  buildingCount: number;
+  roomCount: number;
+  snapshotVersion: string;
+}
+
+export interface TermsResponse {
+  defaultTerm: string;
+  terms: TermSummary[];
+}
+
+export interface RecurringMatch {
+  building: SearchBuildingSummary;
+  room: SearchRoomSummary;
+  freeDays: string[];
+  missedDays: string[];
+}
+
+export interface RecurringSearchResponse {
+  fetchedAt: string;
+  term: string;
+  query: { days: string[]; periods: string[] };
+  matches: RecurringMatch[];
+  nearMisses: RecurringMatch[];
+}
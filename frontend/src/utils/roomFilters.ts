@@ -1,25 +1,15 @@
 import type { DisplayRoom } from "../types";
 
+// Capacity and amenity filters are applied by `/api/rooms/open`; this only
+// narrows the fetched rooms by the search box and the "open now" toggle.
 export function filterRooms(
   rooms: DisplayRoom[],
   query: string,
-  minCapacity: number,
-  requiredAmenities: string[],
   availableOnly: boolean = false
 ): DisplayRoom[] {
   const normalizedQuery = query.trim().toLowerCase();
   return rooms
     .filter((room: DisplayRoom) => (availableOnly ? room.isAvailableNow : true))
-    .filter((room: DisplayRoom) => {
-      const capacity = room.capacity ?? 0;
-      return capacity >= minCapacity;
-    })
-    .filter((room: DisplayRoom) => {
-      if (requiredAmenities.length === 0) return true;
-      return requiredAmenities.every((amenity) =>
-        room.amenities.includes(amenity)
-      );
-    })
     .filter((room: DisplayRoom) => {
       if (!normalizedQuery) return true;
       return (
@@ -0,0 +1,59 @@
+import type { BuildingRoomDetail, RoomStatus, RoomsResponse } from "../types";
+
+// Copies streamed statuses onto every size bucket of the matching rooms, leaving
+// their periods and metadata untouched.
+export function applyRoomStatuses(
+  data: RoomsResponse,
+  statuses: RoomStatus[]
+): RoomsResponse {
+  if (statuses.length === 0) return data;
+  const byRoom = new Map(
+    statuses.map((status) => [`${status.buildingId}/${status.number}`, status])
+  );
+
+  return {
+    ...data,
+    buildings: data.buildings.map((building) => ({
+      ...building,
+      rooms: building.rooms.map((room) => {
+        const status = byRoom.get(`${building.id}/${room.number}`);
+        if (!status) return room;
+        const availability = Object.fromEntries(
+          Object.entries(room.availability).map(([size, record]) => [
+            size,
+            {
+              ...record,
+              isAvailableNow: status.isAvailableNow,
+              openUntil: status.openUntil,
+              freeMinutesRemaining: status.freeMinutesRemaining,
+              nextAvailable: status.nextAvailable,
+              nextBusyAt: status.nextBusyAt,
+            },
+          ])
+        );
+        return { ...room, availability };
+      }),
+    })),
+  };
+}
+
+export interface RoomStatusLabel {
+  label: string;
+  tone: string;
+}
+
+export function describeRoomStatus(room: BuildingRoomDetail): RoomStatusLabel {
+  if (room.isAvailableNow) {
+    return {
+      label: room.openUntil ? `Open until ${room.openUntil}` : "Open now",
+      tone: "text-emerald-600",
+    };
+  }
+  if (room.isAvailableLaterToday && room.nextAvailable) {
+    return {
+      label: `Free at ${room.nextAvailable.startTime}`,
+      tone: "text-amber-600",
+    };
+  }
+  return { label: "Unavailable today", tone: "text-slate-500" };
+}